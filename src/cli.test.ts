@@ -0,0 +1,101 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { main } from "./cli";
+import { generateValidators } from "./generate";
+
+const SCHEMAS = `
+export const user = { name: "string", "age?": "number" };
+export const config = { port: 3000 };
+export const version = "1.0";
+export const helper = () => {};
+export default { name: "string" };
+`;
+
+describe("pukka generate", () => {
+  let dir: string;
+  let module: string;
+  let lines: { log: string[]; error: string[] };
+
+  const log = {
+    log: (line: string) => lines.log.push(line),
+    error: (line: string) => lines.error.push(line),
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "pukka-"));
+    module = join(dir, "schemas.js");
+    await writeFile(module, SCHEMAS);
+    lines = { log: [], error: [] };
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("writes next to the module", async () => {
+    expect(await main(["generate", module], log)).toBe(0);
+    const file = join(dir, "schemas.validators.ts");
+    expect(await readFile(file, "utf8")).toBe(
+      generateValidators({ user: { name: "string", "age?": "number" } }),
+    );
+    expect(lines.log).toEqual([`Generated ${file}`]);
+  });
+
+  test("skips exports that aren't schemas", async () => {
+    expect(await main(["generate", module], log)).toBe(0);
+    expect(lines.error).toEqual([
+      "Skipping 'config': Invalid type '3000' for 'port'",
+    ]);
+  });
+
+  test("--out", async () => {
+    const out = join(dir, "out.ts");
+    expect(await main(["generate", module, "--out", out], log)).toBe(0);
+    expect(await readFile(out, "utf8")).toContain("validateUser");
+    expect(lines.log).toEqual([`Generated ${out}`]);
+  });
+
+  test("--check", async () => {
+    const out = join(dir, "out.ts");
+    const check = ["generate", module, "--out", out, "--check"];
+    expect(await main(check, log)).toBe(1);
+    expect(lines.error).toContain(
+      `${out} is stale, run pukka generate ${module}`,
+    );
+
+    await main(["generate", module, "--out", out], log);
+    lines = { log: [], error: [] };
+    expect(await main(check, log)).toBe(0);
+    expect(lines.log).toEqual([`${out} is up to date`]);
+
+    await writeFile(out, "// edited");
+    expect(await main(check, log)).toBe(1);
+    expect(await readFile(out, "utf8")).toBe("// edited");
+  });
+
+  test("usage errors", async () => {
+    for (const args of [
+      [],
+      ["build", module],
+      ["generate"],
+      ["generate", module, "--out"],
+      ["generate", module, "--watch"],
+    ]) {
+      lines = { log: [], error: [] };
+      expect(await main(args, log)).toBe(1);
+      expect(lines.error[0]).toMatch(/^Usage: pukka generate <module>/);
+    }
+  });
+
+  test("modules without schemas", async () => {
+    await writeFile(module, "export const version = 1;");
+    expect(await main(["generate", module], log)).toBe(1);
+    expect(lines.error).toEqual([`No schemas exported by ${module}`]);
+
+    const missing = join(dir, "missing.js");
+    expect(await main(["generate", missing], log)).toBe(1);
+    expect(lines.error[1]).toContain("missing.js");
+  });
+});
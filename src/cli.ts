@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+import { realpathSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { generateValidators } from "./generate";
+import { isObject } from "./helper";
+import type { Schema } from "./types";
+
+const USAGE = `Usage: pukka generate <module> [--out <file>] [--check]
+
+Generates standalone TypeScript validators for the schemas exported by a module
+
+Options:
+  --out <file>  output file, default is <module>.validators.ts
+  --check       fail when the output file is missing or stale, without writing it`;
+
+type Log = Pick<Console, "log" | "error">;
+
+// "src/schemas.js" => "src/schemas.validators.ts"
+const outputFile = (module: string) =>
+  `${module.replace(/\.[cm]?[jt]s$/, "")}.validators.ts`;
+
+/** exports of the module that can be generated, others are skipped with a warning */
+async function loadSchemas(module: string, log: Log) {
+  const exports = await import(pathToFileURL(resolve(module)).href);
+  const schemas: Record<string, Schema> = {};
+  for (const [name, value] of Object.entries(exports)) {
+    if (name === "default" || !isObject(value)) continue;
+    try {
+      generateValidators({ [name]: value as Schema });
+      schemas[name] = value as Schema;
+    } catch (error: any) {
+      log.error(`Skipping '${name}': ${error.message}`);
+    }
+  }
+  return schemas;
+}
+
+/** runs the command, resolves to the exit code */
+export async function main(args: string[], log: Log = console) {
+  const [command, module, ...rest] = args;
+  const check = rest.includes("--check");
+  const outIndex = rest.indexOf("--out");
+  const out = outIndex === -1 ? undefined : rest[outIndex + 1];
+  const unknown = rest.filter(
+    (arg, index) =>
+      arg !== "--check" &&
+      (outIndex === -1 || (index !== outIndex && index !== outIndex + 1)),
+  );
+
+  if (
+    command !== "generate" ||
+    module == null ||
+    (outIndex !== -1 && out == null) ||
+    unknown.length > 0
+  ) {
+    log.error(USAGE);
+    return 1;
+  }
+
+  const file = out ?? outputFile(module);
+  try {
+    const schemas = await loadSchemas(module, log);
+    if (Object.keys(schemas).length === 0) {
+      log.error(`No schemas exported by ${module}`);
+      return 1;
+    }
+    const code = generateValidators(schemas);
+
+    if (check) {
+      const existing = await readFile(file, "utf8").catch(() => undefined);
+      if (existing !== code) {
+        log.error(`${file} is stale, run pukka generate ${module}`);
+        return 1;
+      }
+      log.log(`${file} is up to date`);
+      return 0;
+    }
+
+    await writeFile(file, code);
+    log.log(`Generated ${file}`);
+    return 0;
+  } catch (error: any) {
+    log.error(error.message);
+    return 1;
+  }
+}
+
+// run as a command, not when imported, bin scripts are symlinks
+const script = process.argv[1];
+if (script && import.meta.url === pathToFileURL(realpathSync(script)).href) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import "./index.test";
+import {
+  type Schema,
+  field,
+  lazy,
+  object,
+  oneOf,
+  record,
+  union,
+  validator,
+} from "./index";
+
+// the whole suite again, with validator.for compiling
+vi.mock("./validator", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./validator")>();
+  return {
+    ...actual,
+    validator: { ...actual.validator, for: actual.validator.compile },
+  };
+});
+
+const interpreter =
+  await vi.importActual<typeof import("./validator")>("./validator");
+
+const tree = object({
+  name: "string",
+  children: [lazy<{ name: string }>((): Schema => tree)],
+});
+
+const schema = object({
+  "name:n": field({ type: "string", min: 2, max: 5, transform: "trim" }),
+  "age?": "number(18..)",
+  "pageSize=20": "number",
+  code: field({ type: "string", length: 3, pattern: /^[A-Z]+$/ }),
+  dob: field({ type: "date", label: "Date of birth" }),
+  status: oneOf(["draft", "published"]),
+  tags: field({ type: ["string(..3)"], max: 2 }),
+  quantities: record("number(1..)", { pattern: /^[A-Z]+$/, maxKeys: 2 }),
+  address: field({ type: { street: "string" }, unknownKeys: "error" }),
+  payment: union("method", {
+    card: { cvv: "string(3..4)" },
+    bank: { iban: "string" },
+  }),
+  tree: [tree],
+  "csv?": field({
+    type: "string",
+    transform: (value: string) => value.split(","),
+  }),
+  "notes?": field({ type: "string", requiredIf: { status: "draft" } }),
+  "photos?": field({
+    type: [field({ type: "file", maxSize: 1, accept: "image/*" })],
+    maxFiles: 1,
+  }),
+});
+
+const inputs: unknown[] = [
+  {},
+  null,
+  [],
+  {
+    n: " Jo ",
+    age: "17",
+    code: "ab1",
+    dob: "2024-02-30",
+    status: "x",
+    tags: ["abcd", "a", "b"],
+    quantities: { A: "0", b: "1", C: "2" },
+    address: { street: "Main", zip: "12345" },
+    payment: { method: "crypto" },
+    tree: [{ name: "a", children: [{ children: [] }] }],
+    extra: true,
+    photos: [new File(["ab"], "a.txt"), new File([], "")],
+  },
+  {
+    n: "Jane",
+    age: 30,
+    code: "ABC",
+    dob: "2024-01-15",
+    status: "draft",
+    tags: "ab",
+    quantities: { A: 3 },
+    address: {},
+    payment: { method: "card", cvv: "12" },
+    tree: [],
+    csv: "a,b",
+    photos: new File([], ""),
+  },
+];
+
+describe("compiled validators", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const compare = () => {
+    const options = [
+      {},
+      { unknownKeys: "passthrough" as const },
+      { arrayLimit: 1, maxDepth: 1 },
+      { emptyFiles: "missing" as const },
+    ];
+    for (const input of inputs) {
+      for (const option of options) {
+        const expected = interpreter.validator.for(schema)(input, option);
+        const actual = validator.compile(schema)(input, option);
+        expect(actual).toStrictEqual(expected);
+        expect(Object.keys(actual.errors)).toEqual(
+          Object.keys(expected.errors),
+        );
+      }
+    }
+  };
+
+  test("same results as the interpreter", () => {
+    compare();
+  });
+
+  test("falls back to the interpreter without code generation", () => {
+    vi.stubGlobal(
+      "Function",
+      class {
+        constructor() {
+          throw new EvalError("Code generation from strings disallowed");
+        }
+      },
+    );
+    compare();
+  });
+
+  test("standard schema", () => {
+    const validate = validator.compile({ name: "string" });
+    expect(validate["~standard"].validate({})).toEqual({
+      issues: [{ message: "Name is required", path: ["name"] }],
+    });
+  });
+});
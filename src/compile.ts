@@ -0,0 +1,610 @@
+import {
+  KIND,
+  isArray,
+  isEnum,
+  isLazy,
+  isRecord,
+  isUnion,
+  objectRules,
+} from "./helper";
+import type {
+  BasicError,
+  Errors,
+  FileConstraints,
+  LazyType,
+  ObjectRules,
+  ParsedUnion,
+  Property,
+  RecordType,
+  TransformName,
+  ValidatorOptions,
+} from "./types";
+
+/** validates a normalized object input, like the interpreter at the root */
+export type CompiledSchema = (
+  input: Record<string, unknown>,
+  data: any,
+  safeData: any,
+  options: ValidatorOptions<{}>,
+  errors: Errors,
+  inputs: Record<string, unknown>,
+) => void;
+
+/** functions the generated code calls, as rt */
+export type Runtime = {
+  coerce: (input: unknown, type: any) => unknown;
+  transforms: Record<TransformName, (value: any) => unknown>;
+  stringify: (value: unknown) => string;
+  matches: (pattern: RegExp, value: string) => boolean;
+  tag: (value: unknown) => string;
+  report: (
+    errors: Errors,
+    path: string,
+    error: BasicError,
+    value: unknown,
+    options: ValidatorOptions<{}>,
+    label?: string,
+  ) => void;
+  checkUnknownKeys: (
+    path: string,
+    known: Set<string>,
+    unknownKeys: "error" | "passthrough",
+    source: Record<string, unknown>,
+    target: Record<string, unknown>,
+    options: ValidatorOptions<{}>,
+    errors: Errors,
+  ) => void;
+  checkRules: (
+    path: string,
+    rules: ObjectRules,
+    target: Record<string, unknown>,
+    options: ValidatorOptions<{}>,
+    errors: Errors,
+  ) => void;
+  isEmptyFile: (value: unknown) => boolean;
+  fileErrors: (constraints: FileConstraints, value: unknown) => BasicError[];
+};
+
+export type GenerateOptions = {
+  defaults: { arrayLimit: number; maxKeys: number; maxDepth: number };
+  resolve: (type: LazyType) => Record<string, Property>;
+  /** TypeScript, variables are declared as any */
+  typed?: boolean;
+};
+
+/**
+ * Body of a function with the arguments of CompiledSchema, and the values of
+ * the schema it uses, like patterns and defaults, to be declared as c0, c1...
+ */
+export type GeneratedCode = { body: string; constants: unknown[] };
+
+/** expression of a path, with its value when known while generating */
+type Path = { code: string; literal?: string };
+
+/** where a property is read from and written to, as expressions */
+type Place = {
+  path: Path;
+  source: string;
+  target: string;
+  safe: string;
+  key: string;
+  // array index or record key, not a field of the schema
+  dynamic: boolean;
+  depth: string;
+};
+
+type Fail = (error: string, value?: string) => string;
+
+const literal = (value: string): Path => ({
+  code: JSON.stringify(value),
+  literal: value,
+});
+
+function childPath(path: Path, name: string): Path {
+  if (path.literal === "") return literal(name);
+  if (path.literal != null) return literal(`${path.literal}.${name}`);
+  return { code: `${path.code} + ${JSON.stringify(`.${name}`)}` };
+}
+
+// "__proto__" as a key of an object literal would set the prototype
+const propertyName = (key: string) =>
+  key === "__proto__" ? `["__proto__"]` : JSON.stringify(key);
+
+/**
+ * Generates the validation of a parsed schema, it does what the interpreter
+ * does for the schema without walking it: fields are unrolled and lazy schemas
+ * are nested functions
+ */
+export function generateCode(
+  fields: Record<string, Property>,
+  { defaults, resolve, typed }: GenerateOptions,
+): GeneratedCode {
+  const constants = new Map<unknown, string>();
+  const lazyFunctions = new Map<LazyType, string>();
+  const functions: string[] = [];
+  let count = 0;
+
+  // primitives as literals, anything else as a constant
+  const value = (item: unknown): string => {
+    if (item === undefined) return "undefined";
+    if (typeof item === "number") {
+      return Object.is(item, -0) ? "-0" : String(item);
+    }
+    if (item === null || ["string", "boolean"].includes(typeof item)) {
+      return JSON.stringify(item);
+    }
+    let name = constants.get(item);
+    if (name == null) {
+      name = `c${constants.size}`;
+      constants.set(item, name);
+    }
+    return name;
+  };
+  const name = () => `v${count++}`;
+  const any = (variable: string) => (typed ? `${variable}: any` : variable);
+
+  /** same value as defaultValue of the interpreter */
+  function defaultCode(property: Property): string {
+    const { type } = property;
+    if (type === "string") return '""';
+    if (type === "boolean") return "false";
+    if (type === "number" || type === "integer") return "0";
+    if (type === "file") return 'new File([], "")';
+    if (type === "bigint") return "0n";
+    if (type === "date" || type === "datetime") return "new Date(0)";
+    if (isEnum(type)) return value(type.values[0]);
+    if (isRecord(type) || isLazy(type)) return "{}";
+    if (isUnion<ParsedUnion>(type)) {
+      const [branch] = Object.values(type.branches);
+      return defaultCode({ key: property.key, type: branch });
+    }
+    if (isArray(type)) return "[]";
+    const entries = Object.entries(type).map(
+      ([key, child]) => `${propertyName(key)}: ${defaultCode(child)}`,
+    );
+    return `{ ${entries.join(", ")} }`;
+  }
+
+  function transformCode(property: Property, input: string) {
+    return [property.transform ?? []]
+      .flat()
+      .reduce<string>(
+        (result, fn) =>
+          typeof fn === "function"
+            ? `${value(fn)}(${result})`
+            : `rt.transforms.${fn}(${result})`,
+        input,
+      );
+  }
+
+  function compileProperty(property: Property, at: Place): string {
+    const { type } = property;
+    const input = name();
+    const coerced = name();
+    const label = value(property.label);
+    const fail: Fail = (error, failed = "undefined") =>
+      `rt.report(errors, ${at.path.code}, ${error}, ${failed}, options, ${label});`;
+    const lookup = at.dynamic
+      ? at.key
+      : JSON.stringify(property.alias ?? property.key);
+    const expected = isArray(type)
+      ? '"array"'
+      : isRecord(type)
+        ? '"record"'
+        : isEnum(type)
+          ? value(type)
+          : typeof type === "string"
+            ? JSON.stringify(type)
+            : '"object"';
+    // the interpreter resolves a lazy schema first, for its defaults too
+    const defaults = defaultCode(
+      isLazy(type) ? { ...property, type: resolve(type) } : property,
+    );
+
+    const code = [`let ${any(input)} = ${at.source}[${lookup}];`];
+    const item = isArray(type) ? type[0].type : type;
+    if (item === "file") {
+      code.push(
+        `if (options.emptyFiles === "missing" && rt.isEmptyFile(${input})) ${input} = undefined;`,
+      );
+    }
+    if (property.default !== undefined) {
+      code.push(`if (${input} == null) ${input} = ${value(property.default)};`);
+    }
+    code.push(`if (${input} == null) {`);
+    if (!property.optional) {
+      code.push(fail(`{ code: "required", received: typeof ${input} }`, input));
+    }
+    code.push(
+      `${at.target}[${at.key}] = ${isArray(type) ? "[]" : input};`,
+      `${at.safe}[${at.key}] = ${defaults};`,
+      "} else {",
+      `const ${any(coerced)} = rt.coerce(${input}, ${expected});`,
+      `if (${coerced} == null) {`,
+      `const received = rt.stringify(${input}) || typeof ${input};`,
+      isEnum(type)
+        ? fail(`{ code: "enum", values: ${expected}.values, received }`, input)
+        : fail(`{ code: "type", expected: ${expected}, received }`, input),
+      `${at.target}[${at.key}] = ${coerced};`,
+      `${at.safe}[${at.key}] = ${defaults};`,
+      "} else {",
+      typeof type === "string" || isEnum(type)
+        ? primitive(property, at, input, coerced, fail)
+        : container(property, at, input, coerced, fail),
+      "}",
+      "}",
+    );
+    return code.join("\n");
+  }
+
+  function primitive(
+    property: Property,
+    at: Place,
+    input: string,
+    coerced: string,
+    fail: Fail,
+  ) {
+    const result = name();
+    const code = [
+      `const ${any(result)} = ${transformCode(property, coerced)};`,
+      `${at.target}[${at.key}] = ${at.safe}[${at.key}] = ${result};`,
+    ];
+    if (property.transform != null) {
+      code.push(`inputs[${at.path.code}] = ${input};`);
+    }
+    code.push(constraints(property, result, input, fail));
+    const { minSize, maxSize, accept } = property;
+    if (property.type === "file" && (minSize ?? maxSize ?? accept) != null) {
+      const files = value(
+        Object.fromEntries(
+          Object.entries({ minSize, maxSize, accept }).filter(
+            ([, constraint]) => constraint != null,
+          ),
+        ),
+      );
+      code.push(
+        `for (const error of rt.fileErrors(${files}, ${result})) {`,
+        fail("error", input),
+        "}",
+      );
+    }
+    return code.join("\n");
+  }
+
+  /** same checks as checkConstraints, only the ones the property has */
+  function constraints(
+    property: Property,
+    checked: string,
+    input: string,
+    fail: Fail,
+  ) {
+    const { min, max, length, pattern } = property;
+    const type = isArray(property.type) ? "array" : property.type;
+    const kind = typeof type === "string" ? JSON.stringify(type) : value(type);
+    const minimum = value(length ?? min);
+    const maximum = value(length ?? max);
+    const measured = type === "string" || type === "array";
+    const code: string[] = [];
+    // transformed strings are measured even without constraints, like the interpreter
+    if ((length ?? min ?? max) != null || property.transform != null) {
+      const received = name();
+      code.push(
+        `const ${received} = ${measured ? `${checked}.length` : checked};`,
+      );
+      if ((length ?? min) != null) {
+        code.push(
+          `if (${received} < ${minimum}) {`,
+          fail(
+            `{ code: "too_small", type: ${kind}, min: ${minimum}, received: ${received} }`,
+            input,
+          ),
+          (length ?? max) != null ? "} else" : "}",
+        );
+      }
+      if ((length ?? max) != null) {
+        code.push(
+          `if (${received} > ${maximum}) {`,
+          fail(
+            `{ code: "too_big", type: ${kind}, max: ${maximum}, received: ${received} }`,
+            input,
+          ),
+          "}",
+        );
+      }
+    }
+    if (pattern != null) {
+      code.push(
+        `if (typeof ${checked} === "string" && !rt.matches(${value(pattern)}, ${checked})) {`,
+        fail(
+          `{ code: "pattern", pattern: ${value(pattern)}, received: ${checked} }`,
+          input,
+        ),
+        "}",
+      );
+    }
+    return code.join("\n");
+  }
+
+  /** arrays, records and objects, transformed once their items are valid */
+  function container(
+    property: Property,
+    at: Place,
+    input: string,
+    coerced: string,
+    fail: Fail,
+  ) {
+    const { type } = property;
+    const target = name();
+    const safe = name();
+    const errorCount = name();
+    const empty = isArray(type) ? "[]" : "{}";
+    const code: string[] = [];
+
+    if (property.transform != null) {
+      code.push(`const ${errorCount} = Object.keys(errors).length;`);
+    }
+    code.push(
+      `const ${any(target)} = ${at.target}[${at.key}] = ${empty};`,
+      `const ${any(safe)} = ${at.safe}[${at.key}] = ${empty};`,
+    );
+
+    if (isArray(type)) {
+      const index = name();
+      const itemPath = name();
+      code.push(
+        `if (${coerced}.length > arrayLimit) {`,
+        fail(`{ code: "array", limit: arrayLimit, length: ${coerced}.length }`),
+        "} else {",
+        constraints(
+          { ...property, transform: undefined },
+          coerced,
+          "undefined",
+          fail,
+        ),
+        property.maxFiles == null
+          ? ""
+          : [
+              `if (${coerced}.length > ${property.maxFiles}) {`,
+              fail(
+                `{ code: "too_many_files", max: ${property.maxFiles}, received: ${coerced}.length }`,
+              ),
+              "}",
+            ].join("\n"),
+        `for (let ${index} = 0; ${index} < ${coerced}.length; ++${index}) {`,
+        `const ${itemPath} = ${at.path.code} + "[" + ${index} + "]";`,
+        compileProperty(type[0], {
+          path: { code: itemPath },
+          source: coerced,
+          target,
+          safe,
+          key: index,
+          dynamic: true,
+          depth: at.depth,
+        }),
+        "}",
+      );
+    } else if (isRecord<RecordType<Property>>(type)) {
+      const keys = name();
+      const entryKey = name();
+      const entryPath = name();
+      const maxKeys = value(
+        type.maxKeys === undefined ? defaults.maxKeys : type.maxKeys,
+      );
+      code.push(
+        `const ${keys} = Object.keys(${coerced}).filter((key) => key !== "__proto__");`,
+        `if (${keys}.length > ${maxKeys}) {`,
+        fail(`{ code: "record", limit: ${maxKeys}, length: ${keys}.length }`),
+        "} else {",
+        `for (const ${entryKey} of ${keys}) {`,
+        `const ${entryPath} = ${at.path.code} + "." + ${entryKey};`,
+      );
+      if (type.pattern != null) {
+        const pattern = value(type.pattern);
+        code.push(
+          `if (!rt.matches(${pattern}, ${entryKey})) {`,
+          `rt.report(errors, ${entryPath}, { code: "pattern", pattern: ${pattern}, received: ${entryKey} }, ${coerced}[${entryKey}], options);`,
+          "continue;",
+          "}",
+        );
+      }
+      code.push(
+        compileProperty(type.values, {
+          path: { code: entryPath },
+          source: coerced,
+          target,
+          safe,
+          key: entryKey,
+          dynamic: true,
+          depth: at.depth,
+        }),
+        "}",
+      );
+    } else {
+      // a lazy schema is one level deeper
+      const depth = isLazy(type) ? `${at.depth} + 1` : at.depth;
+      const place = { ...at, source: coerced, target, safe, depth };
+      code.push(
+        `if (${depth} > maxDepth) {`,
+        fail(`{ code: "depth", limit: maxDepth }`),
+        "} else {",
+        isUnion<ParsedUnion>(type)
+          ? union(property, type, at, place)
+          : isLazy(type)
+            ? lazy(property, type, place)
+            : objectFields(property, type as Record<string, Property>, place),
+      );
+    }
+
+    if (property.transform != null) {
+      code.push(
+        `if (Object.keys(errors).length === ${errorCount}) {`,
+        `${at.target}[${at.key}] = ${at.safe}[${at.key}] = ${transformCode(property, `${at.target}[${at.key}]`)};`,
+        `inputs[${at.path.code}] = ${input};`,
+        "}",
+      );
+    }
+    code.push("}");
+    return code.join("\n");
+  }
+
+  function union(
+    property: Property,
+    { discriminator, branches }: ParsedUnion,
+    parent: Place,
+    at: Place,
+  ) {
+    const tag = name();
+    const code = [
+      `const ${tag} = rt.tag(${at.source}[${JSON.stringify(discriminator)}]);`,
+    ];
+    for (const [branchTag, branch] of Object.entries(branches)) {
+      code.push(
+        `if (${tag} === ${JSON.stringify(branchTag)}) {`,
+        objectFields(property, branch, at),
+        "} else",
+      );
+    }
+    // no match, only validate the discriminator against all tags
+    const tags: Property = {
+      key: discriminator,
+      type: { [KIND]: "enum", values: Object.keys(branches) },
+    };
+    code.push(
+      "{",
+      `${parent.safe}[${parent.key}] = ${defaultCode(property)};`,
+      objectFields(
+        { ...property, unknownKeys: "strip" },
+        { [discriminator]: tags },
+        at,
+      ),
+      "}",
+    );
+    return code.join("\n");
+  }
+
+  /** nested function per lazy schema, so it can refer to itself */
+  function lazy(property: Property, type: LazyType, at: Place) {
+    const fields = resolve(type);
+    let fn = lazyFunctions.get(type);
+    if (fn == null) {
+      fn = `lazy${lazyFunctions.size}`;
+      lazyFunctions.set(type, fn);
+      const body = objectFields(
+        { key: "", type: fields, unknownKeys: "strip" },
+        fields,
+        {
+          path: { code: "path" },
+          source: "source",
+          target: "target",
+          safe: "safe",
+          key: "",
+          dynamic: false,
+          depth: "depth",
+        },
+      );
+      const params = typed
+        ? "path: string, source: any, target: any, safe: any, depth: number"
+        : "path, source, target, safe, depth";
+      functions.push(`function ${fn}(${params}) {\n${body}\n}`);
+    }
+    return [
+      `${fn}(${at.path.code}, ${at.source}, ${at.target}, ${at.safe}, ${at.depth});`,
+      unknownKeys(property, fields, at),
+    ].join("\n");
+  }
+
+  function objectFields(
+    property: Property,
+    type: Record<string, Property>,
+    at: Place,
+  ) {
+    const code = Object.entries(type).map(([childKey, child]) =>
+      compileProperty(child, {
+        ...at,
+        path: childPath(at.path, childKey),
+        key: JSON.stringify(childKey),
+        dynamic: false,
+      }),
+    );
+    const rules = objectRules(type);
+    if (rules != null) {
+      code.push(
+        `rt.checkRules(${at.path.code}, ${value(rules)}, ${at.target}, options, errors);`,
+      );
+    }
+    code.push(unknownKeys(property, type, at));
+    return code.join("\n");
+  }
+
+  function unknownKeys(
+    property: Property,
+    type: Record<string, Property>,
+    at: Place,
+  ) {
+    if (property.unknownKeys === "strip") return "";
+    const known = new Set(
+      Object.values(type).map((field) => field.alias ?? String(field.key)),
+    );
+    const check = (mode: string) =>
+      `rt.checkUnknownKeys(${at.path.code}, ${value(known)}, ${mode}, ${at.source}, ${at.target}, options, errors);`;
+    if (property.unknownKeys != null) {
+      return check(JSON.stringify(property.unknownKeys));
+    }
+    const option = name();
+    return [
+      `const ${option} = options.unknownKeys ?? "strip";`,
+      `if (${option} !== "strip") {`,
+      check(option),
+      "}",
+    ].join("\n");
+  }
+
+  const root = objectFields({ key: "", type: fields }, fields, {
+    path: literal(""),
+    source: "input",
+    target: "data",
+    safe: "safeData",
+    key: "",
+    dynamic: false,
+    depth: "0",
+  });
+
+  const body = [
+    `const arrayLimit = options.arrayLimit ?? ${defaults.arrayLimit};`,
+    `const maxDepth = options.maxDepth ?? ${defaults.maxDepth};`,
+    ...functions,
+    "if (0 > maxDepth) {",
+    'rt.report(errors, "", { code: "depth", limit: maxDepth }, undefined, options);',
+    "} else {",
+    root,
+    "}",
+  ].join("\n");
+
+  return { body, constants: Array.from(constants.keys()) };
+}
+
+/**
+ * Validation function generated for a parsed schema
+ *
+ * Returns undefined when code generation is disabled, e.g. by a Content Security Policy
+ */
+export function compileSchema(
+  fields: Record<string, Property>,
+  runtime: Runtime,
+  options: GenerateOptions,
+): CompiledSchema | undefined {
+  const { body, constants } = generateCode(fields, options);
+  const names = constants.map((_, index) => `c${index}`);
+  try {
+    const factory = new Function(
+      "rt",
+      "constants",
+      `const [${names.join(", ")}] = constants;\nreturn function (input, data, safeData, options, errors, inputs) {\n${body}\n}`,
+    );
+    return factory(runtime, constants);
+  } catch (error) {
+    // code generation is disabled, e.g. by a Content Security Policy
+    if (error instanceof EvalError) return undefined;
+    throw error;
+  }
+}
@@ -0,0 +1,180 @@
+import {
+  isArray,
+  isEnum,
+  isField,
+  isLazy,
+  isObject,
+  isRecord,
+  isUnion,
+} from "./helper";
+import type {
+  DeepPartialSchema,
+  ExtendSchema,
+  MergeSchemas,
+  OmitSchema,
+  PartialSchema,
+  PickSchema,
+  PropertyType,
+  RecordType,
+  RequiredSchema,
+  Schema,
+  SchemaFields,
+} from "./types";
+import { record, union } from "./validator";
+
+// "name:alias?=default" => name
+const fieldName = (key: string) =>
+  key.split("=")[0].replace("?", "").split(":")[0];
+
+// "name" => "name?", "name=1" => "name?=1"
+const optionalKey = (key: string) => {
+  const [head, ...rest] = key.split("=");
+  return [head.endsWith("?") ? head : `${head}?`, ...rest].join("=");
+};
+
+// "name?" => "name", "name?=1" => "name=1"
+const requiredKey = (key: string) => {
+  const [head, ...rest] = key.split("=");
+  return [head.replace(/\?$/, ""), ...rest].join("=");
+};
+
+const mapKeys = (schema: Schema, map: (key: string) => string) =>
+  Object.fromEntries(
+    Object.entries(schema).map(([key, type]) => [map(key), type]),
+  );
+
+const filterKeys = (schema: Schema, keep: (name: string) => boolean) =>
+  Object.fromEntries(
+    Object.entries(schema).filter(([key]) => keep(fieldName(key))),
+  );
+
+/**
+ * Add fields to a schema, a field with the same name replaces the existing one
+ * even if its key is written differently, e.g. "email?" replaces "email:mail"
+ *
+ * @example
+ * ```typescript
+ * const createUser = object({ name: "string", email: "string" })
+ *
+ * const updateUser = extend(partial(createUser), { id: "number" })
+ * // { "name?": "string", "email?": "string", id: "number" }
+ * ```
+ */
+export const extend = <S extends Schema, E extends Schema>(
+  schema: S,
+  fields: E,
+): ExtendSchema<S, E> => {
+  const names = Object.keys(fields).map(fieldName);
+  return {
+    ...filterKeys(schema, (name) => !names.includes(name)),
+    ...fields,
+  } as ExtendSchema<S, E>;
+};
+
+/**
+ * Combine schemas, later schemas replace fields with the same name
+ *
+ * @example
+ * ```typescript
+ * const schema = merge(person, address, contact)
+ * ```
+ */
+export const merge = <T extends Schema[]>(...schemas: T): MergeSchemas<T> =>
+  schemas.reduce<Schema>(
+    (result, schema) => extend(result, schema),
+    {},
+  ) as MergeSchemas<T>;
+
+/**
+ * Schema with only the given fields, names are without alias, "?" or default
+ *
+ * @example
+ * ```typescript
+ * const login = pick(user, ["email", "password"])
+ * ```
+ */
+export const pick = <S extends Schema, const N extends SchemaFields<S>>(
+  schema: S,
+  names: readonly N[],
+): PickSchema<S, N> =>
+  filterKeys(schema, (name) => names.includes(name as N)) as PickSchema<S, N>;
+
+/**
+ * Schema without the given fields, names are without alias, "?" or default
+ *
+ * @example
+ * ```typescript
+ * const publicUser = omit(user, ["password"])
+ * ```
+ */
+export const omit = <S extends Schema, const N extends SchemaFields<S>>(
+  schema: S,
+  names: readonly N[],
+): OmitSchema<S, N> =>
+  filterKeys(schema, (name) => !names.includes(name as N)) as OmitSchema<S, N>;
+
+/**
+ * Every field optional, fields with a default still get their default
+ *
+ * @example
+ * ```typescript
+ * const patchUser = partial(user) // { "name?": "string", "email?": "string" }
+ * ```
+ */
+export const partial = <S extends Schema>(schema: S): PartialSchema<S> =>
+  mapKeys(schema, optionalKey) as PartialSchema<S>;
+
+/**
+ * Every field required
+ *
+ * @example
+ * ```typescript
+ * const strictUser = required(user) // "email?" becomes "email"
+ * ```
+ */
+export const required = <S extends Schema>(schema: S): RequiredSchema<S> =>
+  mapKeys(schema, requiredKey) as RequiredSchema<S>;
+
+/**
+ * Every field optional, including fields of nested objects, arrays, unions and records
+ *
+ * @example
+ * ```typescript
+ * const patchUser = deepPartial(user)
+ * // { "name?": "string", "address?": { "city?": "string" } }
+ * ```
+ */
+export const deepPartial = <S extends Schema>(
+  schema: S,
+): DeepPartialSchema<S> =>
+  Object.fromEntries(
+    Object.entries(schema).map(([key, type]) => [
+      optionalKey(key),
+      deepPartialType(type),
+    ]),
+  ) as DeepPartialSchema<S>;
+
+function deepPartialType(type: PropertyType): PropertyType {
+  // lazy schemas are resolved later, they can't be changed here
+  if (typeof type === "string" || isEnum(type) || isLazy(type)) {
+    return type;
+  }
+  if (isUnion(type)) {
+    const branches = Object.entries(type.branches).map(([tag, branch]) => [
+      tag,
+      deepPartial(branch),
+    ]);
+    return union(type.discriminator, Object.fromEntries(branches));
+  }
+  if (isRecord<RecordType<PropertyType>>(type)) {
+    const { values, ...options } = type;
+    return record(deepPartialType(values), options);
+  }
+  if (isArray(type)) {
+    return [deepPartialType(type[0])] as PropertyType;
+  }
+  if (isField(type)) {
+    return { ...type, type: deepPartialType(type.type) } as PropertyType;
+  }
+  return isObject(type) ? deepPartial(type as Schema) : type;
+}
@@ -0,0 +1,431 @@
+import {
+  acceptList,
+  isArray,
+  isEnum,
+  isLazy,
+  isObject,
+  isRecord,
+  isUnion,
+} from "./helper";
+import type {
+  Condition,
+  InferInput,
+  Literal,
+  ParsedUnion,
+  Property,
+  RecordType,
+  Schema,
+} from "./types";
+import {
+  DEFAULT_ARRAY_LIMIT,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_MAX_KEYS,
+  matches,
+  parseSchema,
+  resolveLazy,
+} from "./validator";
+
+export type FakeOptions = {
+  /** same seed, same data, default is 1 */
+  seed?: number;
+  /** rate of optional fields and fields with a default that get a value, default is 0.5 */
+  optional?: number;
+  /** arrays are not longer than this, default is 50 */
+  arrayLimit?: number;
+  /** recursive schemas deeper than this only get required fields and the minimum items, default is 2 */
+  maxDepth?: number;
+};
+
+/** invalid input for one field, see generate.invalid */
+export type InvalidSample = {
+  path: string;
+  code:
+    | "required"
+    | "type"
+    | "enum"
+    | "too_small"
+    | "too_big"
+    | "pattern"
+    | "file_too_small"
+    | "file_too_big"
+    | "file_type"
+    | "too_many_files";
+  data: unknown;
+};
+
+type Code = InvalidSample["code"];
+
+type Context = {
+  random: () => number;
+  optional: number;
+  arrayLimit: number;
+  maxDepth: number;
+  /** field to break, other fields are valid */
+  invalid?: { path: string; code: Code };
+  /** fields generated so far, with the ways they can be broken */
+  fields: { path: string; codes: Code[] }[];
+};
+
+const LETTERS = "abcdefghijklmnopqrstuvwxyz";
+
+// mulberry32, small and good enough for sample data
+const prng = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const int = (ctx: Context, min: number, max: number) =>
+  min + Math.floor(ctx.random() * (max - min + 1));
+
+const pick = <T>(ctx: Context, values: readonly T[]) =>
+  values[int(ctx, 0, values.length - 1)];
+
+const letters = (ctx: Context, length: number) =>
+  Array.from({ length }, () => pick(ctx, [...LETTERS])).join("");
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number"
+    ? `${path}[${key}]`
+    : path === ""
+      ? key
+      : `${path}.${key}`;
+
+/** inclusive range of a string or array length, or of a number */
+function range(property: Property, min: number, size: number) {
+  const { length } = property;
+  const low = length ?? property.min ?? min;
+  const high = length ?? property.max ?? low + size;
+  return [low, high] as const;
+}
+
+const hasFunction = (property: Property) =>
+  [property.transform ?? []].flat().some((fn) => typeof fn === "function");
+
+// items of a recursive schema are one level deeper
+const itemDepth = (item: Property, depth: number) =>
+  isLazy(item.type) ? depth + 1 : depth;
+
+/** ways a field can be broken, transform functions make constraints unpredictable */
+function invalidCodes(property: Property, isItem: boolean, ctx: Context) {
+  const { type, min, max, length, pattern } = property;
+  const codes: Code[] = [];
+  if (!isItem && !property.optional && property.default === undefined) {
+    codes.push("required");
+  }
+  if (isEnum(type)) return [...codes, "enum" as const];
+  if (type !== "string" && !isArray(type)) codes.push("type");
+  if (hasFunction(property)) return codes;
+
+  const isLength = type === "string" || isArray(type);
+  const minimum = length ?? min;
+  const maximum = length ?? max;
+  if (minimum != null && (!isLength || minimum > 0)) codes.push("too_small");
+  if (maximum != null && (!isArray(type) || maximum < ctx.arrayLimit)) {
+    codes.push("too_big");
+  }
+  if (pattern != null && !matches(pattern, patternMismatch(property))) {
+    codes.push("pattern");
+  }
+  if (type === "file") {
+    const { minSize, maxSize, accept } = property;
+    if (minSize != null && minSize > 0) codes.push("file_too_small");
+    if (maxSize != null) codes.push("file_too_big");
+    if (accept != null && acceptList(accept).length > 0) {
+      codes.push("file_type");
+    }
+  }
+  const { maxFiles } = property;
+  if (maxFiles != null && isArray(type) && maxFiles < ctx.arrayLimit) {
+    codes.push("too_many_files");
+  }
+  return codes;
+}
+
+// punctuation is unlikely to match a pattern, with a valid length
+const patternMismatch = (property: Property) =>
+  "!".repeat(Math.max(property.length ?? property.min ?? 1, 1));
+
+function invalidValue(
+  path: string,
+  property: Property,
+  code: Code,
+  depth: number,
+  ctx: Context,
+): unknown {
+  const { type } = property;
+  const [low, high] = range(property, 0, 0);
+  switch (code) {
+    case "required":
+      return undefined;
+    case "type":
+      return typeof type === "string" ? `not a ${type}` : "x";
+    case "enum": {
+      const values = (isEnum(type) ? type.values : []).map(String);
+      let value = "x";
+      while (values.includes(value)) value += "x";
+      return value;
+    }
+    case "pattern":
+      return patternMismatch(property);
+    case "file_too_small":
+      return file(ctx, property, (property.minSize ?? 0) - 1);
+    case "file_too_big":
+      return file(ctx, property, (property.maxSize ?? 0) + 1);
+    case "file_type":
+      return new File(["x"], "file.invalid", { type: "application/x-invalid" });
+  }
+  const size =
+    code === "too_small"
+      ? low - 1
+      : code === "too_many_files"
+        ? (property.maxFiles ?? 0) + 1
+        : high + 1;
+  if (type === "string") return letters(ctx, size);
+  if (isArray(type)) {
+    return Array.from({ length: size }, (_, index) =>
+      value(join(path, index), type[0], true, depth, ctx),
+    );
+  }
+  if (type === "bigint") {
+    return code === "too_small"
+      ? BigInt(Math.ceil(low)) - 1n
+      : BigInt(Math.floor(high)) + 1n;
+  }
+  return size;
+}
+
+function value(
+  path: string,
+  property: Property,
+  isItem: boolean,
+  depth: number,
+  ctx: Context,
+): unknown {
+  if (ctx.invalid?.path === path) {
+    return invalidValue(path, property, ctx.invalid.code, depth, ctx);
+  }
+  if (path !== "") {
+    ctx.fields.push({ path, codes: invalidCodes(property, isItem, ctx) });
+  }
+  if (property.example !== undefined) return property.example;
+
+  let { type } = property;
+  if (isLazy(type)) {
+    type = resolveLazy(type);
+    depth += 1;
+    if (depth > DEFAULT_MAX_DEPTH) {
+      throw new Error(`Can't generate '${path}', the schema has no end`);
+    }
+  }
+
+  if (isEnum(type)) return pick(ctx, type.values);
+
+  if (isArray(type)) {
+    const [low, high] = range(property, 0, 3);
+    const limit = Math.min(
+      ctx.arrayLimit,
+      property.maxFiles ?? Number.POSITIVE_INFINITY,
+    );
+    if (low > ctx.arrayLimit) {
+      throw new Error(`Can't generate '${path}' within arrayLimit`);
+    }
+    const size =
+      itemDepth(type[0], depth) > ctx.maxDepth
+        ? low
+        : int(ctx, low, Math.min(high, limit));
+    return Array.from({ length: size }, (_, index) =>
+      value(join(path, index), type[0], true, depth, ctx),
+    );
+  }
+
+  if (isRecord<RecordType<Property>>(type)) {
+    const { values, pattern, maxKeys = DEFAULT_MAX_KEYS } = type;
+    const size =
+      itemDepth(values, depth) > ctx.maxDepth
+        ? 0
+        : int(ctx, 0, Math.min(maxKeys, 3));
+    const entries: Record<string, unknown> = {};
+    for (let i = 0; i < size; i++) {
+      const key = letters(ctx, 5);
+      // random keys rarely match a pattern, the record is valid without them
+      if (pattern != null && !matches(pattern, key)) continue;
+      entries[key] = value(join(path, key), values, true, depth, ctx);
+    }
+    return entries;
+  }
+
+  if (isUnion<ParsedUnion>(type)) {
+    const branch = type.branches[pick(ctx, Object.keys(type.branches))];
+    return fieldValues(path, branch, depth, ctx);
+  }
+
+  if (isObject(type)) {
+    return fieldValues(path, type as Record<string, Property>, depth, ctx);
+  }
+
+  return primitive(property, ctx);
+}
+
+/** object of the fields, keyed by alias like the input, rules between fields hold */
+function fieldValues(
+  path: string,
+  fields: Record<string, Property>,
+  depth: number,
+  ctx: Context,
+) {
+  const values: Record<string, unknown> = {};
+  for (const field of Object.values(fields)) {
+    const fieldPath = join(path, field.key);
+    const isOptional = field.optional || field.default !== undefined;
+    const skip =
+      isOptional && (depth > ctx.maxDepth || ctx.random() >= ctx.optional);
+    // the broken field is always there, optional or not
+    if (skip && ctx.invalid?.path !== fieldPath) continue;
+    values[field.key] = value(fieldPath, field, false, depth, ctx);
+  }
+
+  const holds = (condition?: Condition) =>
+    condition != null &&
+    Object.entries(condition).every(([name, expected]) =>
+      [expected].flat().includes(values[name] as Literal),
+    );
+  for (const field of Object.values(fields)) {
+    const key = String(field.key);
+    const fieldPath = join(path, key);
+    if (ctx.invalid?.path === fieldPath) continue;
+    if (field.equalsField != null) values[key] = values[field.equalsField];
+    if (holds(field.forbiddenIf)) values[key] = undefined;
+    const isRequired =
+      holds(field.requiredIf) ||
+      field.atLeastOneOf?.every((name) => values[name] == null);
+    if (values[key] == null && isRequired) {
+      values[key] = value(fieldPath, field, false, depth, ctx);
+    }
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const field of Object.values(fields)) {
+    const fieldValue = values[field.key];
+    if (fieldValue !== undefined) {
+      result[field.alias ?? String(field.key)] = fieldValue;
+    }
+  }
+  return result;
+}
+
+function primitive(property: Property, ctx: Context) {
+  const { type, pattern } = property;
+  if (type === "string") {
+    if (pattern != null) {
+      throw new Error(
+        `Can't generate a value matching ${pattern} for '${property.key}', add an example`,
+      );
+    }
+    const [low, high] = range(property, 0, 12);
+    return letters(ctx, int(ctx, Math.max(low, Math.min(high, 4)), high));
+  }
+  if (type === "number" || type === "integer" || type === "bigint") {
+    const { length, min, max } = property;
+    const low = length ?? min ?? (max != null ? max - 100 : 0);
+    const high = length ?? max ?? low + 100;
+    // integers when the range has one, e.g. not for 0.1..0.2
+    const [floor, ceil] = [Math.ceil(low), Math.floor(high)];
+    const number = floor <= ceil ? int(ctx, floor, ceil) : low;
+    return type === "bigint" ? BigInt(number) : number;
+  }
+  if (type === "boolean") return ctx.random() < 0.5;
+  if (type === "date" || type === "datetime") {
+    const year = int(ctx, 2000, 2030);
+    const [month, day] = [int(ctx, 0, 11), int(ctx, 1, 28)];
+    return type === "date"
+      ? new Date(Date.UTC(year, month, day))
+      : new Date(Date.UTC(year, month, day, int(ctx, 0, 23), int(ctx, 0, 59)));
+  }
+  const { minSize = 1, maxSize = minSize + 63 } = property;
+  return file(
+    ctx,
+    property,
+    int(ctx, minSize, Math.min(maxSize, minSize + 63)),
+  );
+}
+
+// subtype for MIME type wildcards like "image/*"
+const SUBTYPES: Record<string, string> = {
+  image: "png",
+  audio: "mpeg",
+  video: "mp4",
+  application: "octet-stream",
+};
+
+/** file of the given size, with a name and type one of the accept items matches */
+function file(ctx: Context, property: Property, size: number) {
+  const list = property.accept == null ? [] : acceptList(property.accept);
+  const accept = list.length > 0 ? pick(ctx, list) : "text/plain";
+  const name = letters(ctx, 8);
+  const content = [new Uint8Array(size)];
+  if (accept.startsWith(".")) return new File(content, `${name}${accept}`);
+  const [group, subtype] = accept.split("/");
+  const type =
+    subtype === "*" ? `${group}/${SUBTYPES[group] ?? "plain"}` : accept;
+  return new File(content, `${name}.${type.split("/")[1]}`, { type });
+}
+
+function createContext(options: FakeOptions): Context {
+  return {
+    random: prng(options.seed ?? 1),
+    optional: options.optional ?? 0.5,
+    arrayLimit: options.arrayLimit ?? DEFAULT_ARRAY_LIMIT,
+    maxDepth: options.maxDepth ?? 2,
+    fields: [],
+  };
+}
+
+function generateData<S extends Schema>(
+  schema: S,
+  options: FakeOptions = {},
+): InferInput<S> {
+  const root = { key: "", type: parseSchema(schema) };
+  return value("", root, false, 0, createContext(options)) as InferInput<S>;
+}
+
+function invalidSamples(
+  schema: Schema,
+  options: FakeOptions = {},
+): InvalidSample[] {
+  // optional fields are there to be broken too
+  options = { optional: 1, ...options };
+  const root = { key: "", type: parseSchema(schema) };
+  const ctx = createContext(options);
+  value("", root, false, 0, ctx);
+  return ctx.fields.flatMap(({ path, codes }) =>
+    codes.map((code) => {
+      // same seed, the same data up to the broken field
+      const invalid = { ...createContext(options), invalid: { path, code } };
+      return { path, code, data: value("", root, false, 0, invalid) };
+    }),
+  );
+}
+
+/**
+ * Valid sample data for a schema, e.g. for test fixtures
+ *
+ * Data is the same for the same seed, strings with a pattern need an example
+ *
+ * @example
+ * ```typescript
+ * const user = generate(schema, { seed: 42 })
+ * // { name: "lwrenhqwm", age: 107, tags: ["fnrpam", "bpagbeunaev"] }
+ *
+ * for (const { path, code, data } of generate.invalid(schema)) {
+ *   expect(validate(data).issues).toContainEqual(
+ *     expect.objectContaining({ path, code }),
+ *   )
+ * }
+ * ```
+ */
+export const generate = Object.assign(generateData, {
+  /** sample data with one field broken, for each field and each way it can be broken */
+  invalid: invalidSamples,
+});
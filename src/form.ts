@@ -0,0 +1,49 @@
+import { proxy } from "./helper";
+import type { FormHelper, Schema, ValidationResult } from "./types";
+import { parseSchema, resolveLazy } from "./validator";
+
+type Result<Data extends Record<string, unknown>> = Omit<
+  ValidationResult<Data>,
+  "success" | "issues"
+>;
+
+export const form = {
+  /**
+   * Path, submitted value and errors of every field, for rendering a form
+   *
+   * With the schema, attrs also has the required, type and constraint attributes,
+   * and fields have their label, description and placeholder
+   *
+   * @example
+   * ```tsx
+   * const f = form.helper(result, schema)
+   *
+   * <label>
+   *   {f.email.label}
+   *   <input {...f.email.attrs} />
+   * </label>
+   * <span id={`${f.email.attrs.name}-error`}>{f.email.errors[0]}</span>
+   * ```
+   */
+  helper: formHelper,
+};
+
+function formHelper<Data extends Record<string, unknown>>(
+  result: Result<Data>,
+): FormHelper<Data, {}>;
+function formHelper<Data extends Record<string, unknown>>(
+  result: Result<Data>,
+  schema: Schema,
+): FormHelper<Data>;
+function formHelper<Data extends Record<string, unknown>>(
+  { data, errors }: Result<Data>,
+  schema?: Schema,
+) {
+  const property = schema && { key: "", type: parseSchema(schema) };
+  return proxy(
+    data,
+    errors,
+    {},
+    property && { property, resolve: resolveLazy },
+  ) as unknown as FormHelper<Data>;
+}
@@ -0,0 +1,70 @@
+import ts from "typescript";
+import { vi } from "vitest";
+import { generateValidators } from "./generate";
+import { locales } from "./messages";
+import type { Schema } from "./types";
+// after the imports it uses to create validators
+import "./index.test";
+
+// the whole suite again, with validator.for using the standalone runtime
+vi.mock("./validator", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./validator")>();
+  return {
+    ...actual,
+    validator: {
+      ...actual.validator,
+      for: (schema: Schema, ...rest: unknown[]) =>
+        standalone(actual.validator.for, schema, rest),
+    },
+  };
+});
+
+type Validate = (input: unknown, options?: Record<string, any>) => unknown;
+
+// index.test creates validators as it loads, before the code below runs
+const modules = vi.hoisted(() => new WeakMap<object, unknown>());
+
+/** transpiles the generated module and returns its validator */
+function load(schema: Schema) {
+  if (modules.has(schema)) return modules.get(schema) as Validate | undefined;
+  let validate: Validate | undefined;
+  try {
+    const code = generateValidators({ schema });
+    const { outputText } = ts.transpileModule(code, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2022,
+      },
+    });
+    const module = { exports: {} as Record<string, any> };
+    new Function("module", "exports", outputText)(module, module.exports);
+    validate = module.exports.validateSchema;
+  } catch (error) {
+    // transform functions and the like, the interpreter validates these
+    if (!/can't be generated/.test((error as Error).message)) throw error;
+  }
+  modules.set(schema, validate);
+  return validate;
+}
+
+/** generated validator with the options of pukka, callbacks and context use the interpreter */
+function standalone(
+  interpreter: (...args: any[]) => any,
+  schema: Schema,
+  rest: unknown[],
+) {
+  const interpreted = interpreter(schema, ...rest);
+  const validate = rest.every((arg) => arg == null) ? load(schema) : undefined;
+  if (validate == null) return interpreted;
+  return Object.assign(
+    (input: unknown, options: Record<string, any> = {}) =>
+      validate(input, {
+        ...options,
+        locale:
+          typeof options.locale === "string"
+            ? locales[options.locale as keyof typeof locales]
+            : options.locale,
+      }),
+    { "~standard": interpreted["~standard"] },
+  );
+}
@@ -0,0 +1,734 @@
+import { generateCode } from "./compile";
+import { isArray, isEnum, isLazy, isObject, isRecord, isUnion } from "./helper";
+import { locales } from "./messages";
+import type {
+  LazyType,
+  ParsedUnion,
+  Property,
+  RecordType,
+  Schema,
+} from "./types";
+import {
+  DEFAULT_ARRAY_LIMIT,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_MAX_KEYS,
+  parseSchema,
+  resolveLazy,
+} from "./validator";
+
+// same rules as coerce, messages and normalizeInput of pukka, generate.test runs the whole suite on it
+const RUNTIME = `export type Errors = Record<string, { value: string; errors: string[] }>;
+
+export type ValidationIssue = {
+  path: string;
+  code: string;
+  params: Record<string, unknown>;
+  message: string;
+};
+
+type __PukkaPrimitive = string | number | boolean | bigint | File | Date;
+
+type __PukkaDeepPartial<T> = T extends __PukkaPrimitive
+  ? T | undefined
+  : T extends any[]
+    ? __PukkaDeepPartial<T[number]>[] | undefined
+    : { [K in keyof T]-?: __PukkaDeepPartial<T[K]> } | undefined;
+
+export type ValidationResult<Data> =
+  | { success: true; data: Data; errors: Errors; issues: ValidationIssue[] }
+  | {
+      success: false;
+      data: __PukkaDeepPartial<Data> & {};
+      errors: Errors;
+      issues: ValidationIssue[];
+    };
+
+export type ValidationError = { code: string; [param: string]: any };
+
+export type MessageCatalog = {
+  messages: Record<string, string>;
+  label?: (key: string) => string;
+};
+
+export type ValidatorOptions = {
+  arrayLimit?: number;
+  maxDepth?: number;
+  unknownKeys?: "strip" | "error" | "passthrough";
+  emptyFiles?: "keep" | "missing";
+  errorMessage?: (key: string, error: ValidationError) => string | undefined;
+  locale?: MessageCatalog;
+  labels?: Record<string, string>;
+};
+
+const TRUE: unknown[] = ["true", "1", 1];
+const FALSE: unknown[] = ["false", "0", 0];
+
+const DATE =
+  /^(\\d{4})-(\\d{2})-(\\d{2})(?:[T ](\\d{2}):(\\d{2})(?::(\\d{2})(?:\\.(\\d{1,3})\\d*)?)?(Z|[+-]\\d{2}:?\\d{2})?)?$/;
+
+const en: MessageCatalog = ${JSON.stringify({ messages: locales.en.messages }, null, 2)};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value != null &&
+  typeof value === "object" &&
+  (value as any).constructor === Object;
+
+const formatDate = (date: Date) => {
+  if (Number.isNaN(date.getTime())) return "";
+  const iso = date.toISOString();
+  if (iso.endsWith("T00:00:00.000Z")) return iso.substring(0, 10);
+  return iso.replace(/(:00)?\\.000Z$|Z$/, "");
+};
+
+const stringify = (value: unknown): string => {
+  if (value instanceof Date) return formatDate(value);
+  return value == null || typeof value === "object" ? "" : String(value);
+};
+
+function parseDate(input: string) {
+  const match = DATE.exec(input.trim());
+  if (match == null) return undefined;
+  const [, y, m, d, hh = "0", mm = "0", ss = "0", ms = "0", offset] = match;
+  const [year, month, day, hours, minutes, seconds] = [y, m, d, hh, mm, ss].map(
+    Number,
+  );
+  if (hours > 23 || minutes > 59 || seconds > 59) return undefined;
+  const millis = Number(ms.padEnd(3, "0"));
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds, millis);
+  const date = new Date(time);
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  if (offset == null || offset === "Z") return date;
+  const sign = offset.startsWith("-") ? -1 : 1;
+  const zone = Number(offset.substring(1, 3)) * 60 + Number(offset.slice(-2));
+  return new Date(time - sign * zone * 60_000);
+}
+
+function coerce(input: any, type: any): any {
+  if (type === "object") return isObject(input) ? input : undefined;
+  if (type === "record") {
+    return isObject(input) || Array.isArray(input)
+      ? Object.fromEntries(Object.entries(input))
+      : undefined;
+  }
+  if (type === "array") return Array.isArray(input) ? input : [input];
+  if (Array.isArray(input) && input.length === 1) input = input[0];
+  if (typeof type === "object") {
+    return type.values.find(
+      (value: unknown) =>
+        value === input ||
+        (typeof input !== "object" && String(value) === String(input)),
+    );
+  }
+  if (type === "string") {
+    return typeof input === "string" ? input : String(input);
+  }
+  if (type === "boolean") {
+    return typeof input === "boolean"
+      ? input
+      : TRUE.includes(input)
+        ? true
+        : FALSE.includes(input)
+          ? false
+          : undefined;
+  }
+  if (type === "number") {
+    if (typeof input === "number") return input;
+    const value = Number(input);
+    return Number.isNaN(value) ? undefined : value;
+  }
+  if (type === "integer") {
+    const value = typeof input === "number" ? input : Number(input);
+    return Number.isInteger(value) ? value : undefined;
+  }
+  if (type === "bigint") {
+    if (typeof input === "bigint") return input;
+    try {
+      return BigInt(input);
+    } catch {
+      return undefined;
+    }
+  }
+  if (type === "date" || type === "datetime") {
+    const date =
+      input instanceof Date || typeof input === "number"
+        ? new Date(input)
+        : typeof input === "string"
+          ? parseDate(input)
+          : undefined;
+    if (date == null || Number.isNaN(date.getTime())) return undefined;
+    if (type === "datetime") return input instanceof Date ? input : date;
+    date.setUTCHours(0, 0, 0, 0);
+    return date;
+  }
+  return input instanceof File ? input : undefined;
+}
+
+const transforms = {
+  trim: (value: any) => (typeof value === "string" ? value.trim() : value),
+  toLowerCase: (value: any) =>
+    typeof value === "string" ? value.toLowerCase() : value,
+  toUpperCase: (value: any) =>
+    typeof value === "string" ? value.toUpperCase() : value,
+  collapseWhitespace: (value: any) =>
+    typeof value === "string" ? value.replace(/\\s+/g, " ") : value,
+  round: (value: any) => (typeof value === "number" ? Math.round(value) : value),
+};
+
+const matches = (pattern: RegExp, value: string) => {
+  pattern.lastIndex = 0;
+  return pattern.test(value);
+};
+
+const tag = (value: unknown) =>
+  stringify(Array.isArray(value) && value.length === 1 ? value[0] : value);
+
+const words = (key: string) => {
+  const name = key.split(".").pop() ?? "";
+  return \`\${name.substring(0, 1).toUpperCase()}\${name.substring(1).replace(/([a-z])([A-Z])/g, "$1 $2")}\`;
+};
+
+const fileSize = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let unit = 0;
+  while (bytes >= 1024 && unit < units.length - 1) {
+    bytes /= 1024;
+    unit += 1;
+  }
+  return \`\${Number(bytes.toFixed(1))} \${units[unit]}\`;
+};
+
+function params(
+  error: ValidationError,
+  labelOf: (field: string) => string,
+): Record<string, unknown> {
+  if (error.code === "enum") {
+    const values = error.values.map((value: unknown) => \`'\${value}'\`);
+    return { ...error, values: values.join(", ") };
+  }
+  if (error.code === "pattern") return { ...error, pattern: error.pattern.source };
+  if (error.code === "exception") return { error: error.error.message };
+  if (error.code === "at_least_one_of") {
+    return { fields: error.fields.map(labelOf).join(", ") };
+  }
+  if ("field" in error) return { ...error, field: labelOf(error.field) };
+  if (error.code === "file_too_small") {
+    return { min: fileSize(error.min), received: fileSize(error.received) };
+  }
+  if (error.code === "file_too_big") {
+    return { max: fileSize(error.max), received: fileSize(error.received) };
+  }
+  return error;
+}
+
+function message(
+  path: string,
+  error: ValidationError,
+  options: ValidatorOptions,
+  schemaLabel?: string,
+  fieldLabels: Record<string, string> = {},
+) {
+  const key = path.replace(/\\[\\s*(\\d+)\\s*\\]/g, "");
+  const override = options.errorMessage?.(key, error);
+  if (override != null) return override;
+  const catalog = options.locale ?? en;
+  const name =
+    "type" in error && (error.type === "string" || error.type === "array")
+      ? \`\${error.code}_length\`
+      : error.code;
+  const labelOf = (fieldKey: string, fieldLabel?: string) =>
+    options.labels?.[fieldKey] ??
+    fieldLabel ??
+    catalog.label?.(fieldKey) ??
+    words(fieldKey);
+  const sibling = (field: string) =>
+    labelOf(key.replace(/[^.]*$/, field), fieldLabels[field]);
+  const values: Record<string, unknown> = {
+    ...params(error, sibling),
+    label: labelOf(key, schemaLabel),
+  };
+  return catalog.messages[name].replace(/\\{(\\w+)\\}/g, (placeholder, name) =>
+    name in values ? String(values[name]) : placeholder,
+  );
+}
+
+const issueLists = new WeakMap<Errors, ValidationIssue[]>();
+
+const getIssues = (errors: Errors) => {
+  let issues = issueLists.get(errors);
+  if (issues == null) {
+    issues = [];
+    issueLists.set(errors, issues);
+  }
+  return issues;
+};
+
+function issueParams({ code, ...params }: ValidationError): Record<string, unknown> {
+  if (typeof params.received === "bigint") {
+    return { ...params, received: String(params.received) };
+  }
+  if (code === "pattern") {
+    return { ...params, pattern: params.pattern.source, flags: params.pattern.flags };
+  }
+  if (code === "exception") {
+    const { name = "Error", message = String(params.error) } = params.error ?? {};
+    return { name, message };
+  }
+  return params;
+}
+
+function report(
+  errors: Errors,
+  path: string,
+  error: ValidationError,
+  value: unknown,
+  options: ValidatorOptions,
+  label?: string,
+  fieldLabels?: Record<string, string>,
+) {
+  const text = message(path, error, options, label, fieldLabels);
+  if (errors[path] == null) {
+    errors[path] = { value: stringify(value), errors: [text] };
+  } else {
+    errors[path].errors.push(text);
+  }
+  getIssues(errors).push({
+    path,
+    code: error.code,
+    params: issueParams(error),
+    message: text,
+  });
+}
+
+function checkUnknownKeys(
+  path: string,
+  known: Set<string>,
+  unknownKeys: "error" | "passthrough",
+  source: Record<string, unknown>,
+  target: Record<string, unknown>,
+  options: ValidatorOptions,
+  errors: Errors,
+) {
+  for (const [key, value] of Object.entries(source)) {
+    if (known.has(key) || key === "__proto__") continue;
+    if (unknownKeys === "passthrough") {
+      target[key] = value;
+    } else {
+      const childPath = path === "" ? key : \`\${path}.\${key}\`;
+      report(errors, childPath, { code: "unrecognized_keys", key }, value, options);
+    }
+  }
+}
+
+type __PukkaCondition = Record<string, unknown>;
+
+type __PukkaObjectRules = {
+  fields: Record<
+    string,
+    {
+      requiredIf?: __PukkaCondition;
+      forbiddenIf?: __PukkaCondition;
+      equalsField?: string;
+      atLeastOneOf?: string[];
+    }
+  >;
+  labels: Record<string, string>;
+};
+
+const isEqual = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+
+function checkRules(
+  path: string,
+  { fields, labels }: __PukkaObjectRules,
+  target: Record<string, unknown>,
+  options: ValidatorOptions,
+  errors: Errors,
+) {
+  const holds = (condition: __PukkaCondition) => {
+    const entries = Object.entries(condition);
+    const all = entries.every(([field, values]) =>
+      [values].flat().some((value) => isEqual(target[field], value)),
+    );
+    return all ? entries[0][0] : undefined;
+  };
+  for (const [key, rules] of Object.entries(fields)) {
+    const fieldPath = path === "" ? key : \`\${path}.\${key}\`;
+    if (errors[fieldPath] != null) continue;
+    const value = target[key];
+    const fail = (error: ValidationError) =>
+      report(errors, fieldPath, error, value, options, labels[key], labels);
+    const { requiredIf, forbiddenIf, equalsField, atLeastOneOf } = rules;
+    const required = requiredIf != null && value == null ? holds(requiredIf) : undefined;
+    if (required != null) {
+      fail({ code: "required_if", field: required, value: target[required] });
+    }
+    const forbidden = forbiddenIf != null && value != null ? holds(forbiddenIf) : undefined;
+    if (forbidden != null) {
+      fail({ code: "forbidden_if", field: forbidden, value: target[forbidden] });
+    }
+    if (value != null && equalsField != null && !isEqual(value, target[equalsField])) {
+      fail({ code: "equals_field", field: equalsField });
+    }
+    if (atLeastOneOf != null && [key, ...atLeastOneOf].every((field) => target[field] == null)) {
+      fail({ code: "at_least_one_of", fields: [key, ...atLeastOneOf] });
+    }
+  }
+}
+
+const isEmptyFile = (value: unknown) =>
+  value instanceof File && value.size === 0 && value.name === "";
+
+const accepts = (file: File, accept: string) => {
+  const item = accept.toLowerCase();
+  const type = file.type.toLowerCase();
+  if (item.startsWith(".")) return file.name.toLowerCase().endsWith(item);
+  if (item.endsWith("/*")) return type.startsWith(item.slice(0, -1));
+  return type === item;
+};
+
+function fileErrors(
+  { minSize, maxSize, accept }: { minSize?: number; maxSize?: number; accept?: string | string[] },
+  value: unknown,
+): ValidationError[] {
+  if (!(value instanceof File)) return [];
+  const errors: ValidationError[] = [];
+  if (minSize != null && value.size < minSize) {
+    errors.push({ code: "file_too_small", min: minSize, received: value.size });
+  } else if (maxSize != null && value.size > maxSize) {
+    errors.push({ code: "file_too_big", max: maxSize, received: value.size });
+  }
+  const list = [accept ?? []]
+    .flat()
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+  if (list.length > 0 && !list.some((item) => accepts(value, item))) {
+    errors.push({
+      code: "file_type",
+      accept: list.join(", "),
+      received: value.type === "" ? value.name : value.type,
+    });
+  }
+  return errors;
+}
+
+// "a.b[0]" => source.a.b[0], like dset
+function set(source: any, path: string, value: unknown) {
+  const keys = path.split(".");
+  let target = source;
+  for (let i = 0; i < keys.length; ++i) {
+    const key = keys[i];
+    if (key === "__proto__" || key === "constructor" || key === "prototype") {
+      break;
+    }
+    const next = keys[i + 1];
+    target = target[key] =
+      i === keys.length - 1
+        ? value
+        : typeof target[key] === "object"
+          ? target[key]
+          : (next as any) * 0 !== 0 || next.includes(".")
+            ? {}
+            : [];
+  }
+}
+
+function normalizeInput(input: unknown) {
+  const isForm =
+    (typeof FormData !== "undefined" && input instanceof FormData) ||
+    (typeof URLSearchParams !== "undefined" && input instanceof URLSearchParams);
+  if (!isObject(input) && !isForm) return input;
+  const entries = isForm
+    ? Array.from(new Set((input as FormData).keys()), (key) => {
+        const values = (input as FormData).getAll(key);
+        return [key, values.length === 1 ? values[0] : values] as const;
+      })
+    : Object.entries(input as object);
+  const source = {};
+  for (const [key, value] of entries) {
+    set(source, key.replace(/\\[\\s*(\\d+)\\s*\\]/g, ".$1"), value);
+  }
+  return source;
+}
+
+const rt = {
+  coerce,
+  transforms,
+  stringify,
+  matches,
+  tag,
+  report,
+  checkUnknownKeys,
+  checkRules,
+  isEmptyFile,
+  fileErrors,
+};
+
+type __PukkaSchema = (
+  input: any,
+  data: any,
+  safeData: any,
+  options: ValidatorOptions,
+  errors: Errors,
+  inputs: Record<string, unknown>,
+) => void;
+
+function run<T>(
+  schema: __PukkaSchema,
+  input: unknown,
+  options: ValidatorOptions,
+): ValidationResult<T> {
+  const data = {};
+  const safeData = {};
+  const errors: Errors = {};
+  try {
+    const source = normalizeInput(input);
+    if (isObject(source)) {
+      schema(source, data, safeData, options, errors, {});
+    } else {
+      const received = Array.isArray(source)
+        ? "array"
+        : source === null
+          ? "null"
+          : ((source as any)?.constructor?.name ?? typeof source);
+      const error = { code: "type", expected: "object", received };
+      report(errors, "", error, undefined, options);
+    }
+  } catch (error) {
+    report(errors, "", { code: "exception", error }, undefined, options);
+  }
+  return {
+    success: Object.keys(errors).length === 0,
+    data,
+    errors,
+    issues: getIssues(errors),
+  } as ValidationResult<T>;
+}`;
+
+const PRIMITIVES: Record<string, string> = {
+  string: "string",
+  boolean: "boolean",
+  number: "number",
+  integer: "number",
+  bigint: "bigint",
+  file: "File",
+  date: "Date",
+  datetime: "Date",
+};
+
+// types of the runtime and the globals it refers to, an interface can't take their names
+const RESERVED_TYPES = [
+  ...Array.from(
+    RUNTIME.matchAll(/^(?:export )?type (\w+)/gm),
+    ([, name]) => name,
+  ),
+  "Record",
+  "File",
+  "Date",
+  "Set",
+  "RegExp",
+  "FormData",
+];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const propertyName = (key: string) =>
+  IDENTIFIER.test(key) ? key : JSON.stringify(key);
+
+// "userSchema" => "UserSchema"
+const typeName = (name: string) =>
+  `${name.substring(0, 1).toUpperCase()}${name.substring(1)}`;
+
+/** source of a value, for constants of the generated code */
+function serialize(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (typeof value === "bigint") return `${value}n`;
+  if (typeof value === "number") {
+    return Object.is(value, -0) ? "-0" : String(value);
+  }
+  if (value === null || typeof value !== "object") {
+    if (typeof value === "function") {
+      throw new Error("Functions can't be generated");
+    }
+    return JSON.stringify(value);
+  }
+  if (value instanceof Date) return `new Date(${value.getTime()})`;
+  if (value instanceof RegExp) {
+    return `new RegExp(${JSON.stringify(value.source)}, ${JSON.stringify(value.flags)})`;
+  }
+  if (value instanceof Set) return `new Set(${serialize(Array.from(value))})`;
+  if (isEnum(value)) return `{ values: ${serialize(value.values)} }`;
+  if (isArray(value)) return `[${value.map(serialize).join(", ")}]`;
+  if (isObject(value)) {
+    const entries = Object.entries(value).map(
+      ([key, item]) => `${JSON.stringify(key)}: ${serialize(item)}`,
+    );
+    return `{ ${entries.join(", ")} }`;
+  }
+  throw new Error(`Value '${String(value)}' can't be generated`);
+}
+
+/** indents generated code by its braces */
+function indent(code: string, level = 0) {
+  const lines: string[] = [];
+  for (const line of code.split("\n").map((line) => line.trim())) {
+    if (line === "") continue;
+    const previous = lines.at(-1);
+    // "} else" and the "if" that follows on one line
+    if (previous?.endsWith(" else")) {
+      lines[lines.length - 1] = `${previous} ${line}`;
+    } else {
+      if (line.startsWith("}")) level -= 1;
+      lines.push(`${"  ".repeat(Math.max(level, 0))}${line}`);
+    }
+    if (line.endsWith("{")) level += 1;
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Standalone TypeScript validators for schemas, without a dependency on pukka
+ *
+ * Every schema gets an interface for its inferred type and a validate function
+ * with the same results as validator.for. Callbacks and transform functions
+ * can't be generated, see validator.compile instead
+ *
+ * @example
+ * ```typescript
+ * const source = generateValidators({ user })
+ * // export interface User { ... }
+ * // export const validateUser = (input: unknown, options?: ValidatorOptions): ValidationResult<User> => ...
+ * ```
+ */
+export function generateValidators(schemas: Record<string, Schema>): string {
+  const parsed = Object.entries(schemas).map(
+    ([name, schema]) => [name, schema, parseSchema(schema)] as const,
+  );
+
+  const names = new Set(RESERVED_TYPES);
+  for (const [name] of parsed) {
+    if (names.has(typeName(name))) {
+      throw new Error(
+        `Type '${typeName(name)}' of '${name}' is already declared`,
+      );
+    }
+    names.add(typeName(name));
+  }
+
+  // lazy schemas are named after the exported schema they refer to
+  const interfaces = new Map<Schema, string>(
+    parsed.map(([name, schema]) => [schema, typeName(name)]),
+  );
+  const declarations: string[] = [];
+
+  function lazyName(type: LazyType) {
+    const schema = type.schema();
+    let name = interfaces.get(schema);
+    if (name == null) {
+      let index = 1;
+      while (names.has(`Lazy${index}`)) index += 1;
+      name = `Lazy${index}`;
+      names.add(name);
+      interfaces.set(schema, name);
+      declarations.push(interfaceCode(name, resolveLazy(type)));
+    }
+    return name;
+  }
+
+  function typeCode(property: Property, level: number): string {
+    const { type } = property;
+    for (const fn of [property.transform ?? []].flat()) {
+      if (typeof fn === "function") {
+        throw new Error(
+          `Transform function of '${property.key}' can't be generated`,
+        );
+      }
+    }
+    if (typeof type === "string" && Object.hasOwn(PRIMITIVES, type)) {
+      return PRIMITIVES[type];
+    }
+    if (isEnum(type)) {
+      return type.values.map((value) => JSON.stringify(value)).join(" | ");
+    }
+    if (isLazy(type)) return lazyName(type);
+    if (isUnion<ParsedUnion>(type)) {
+      return Object.values(type.branches)
+        .map((branch) => objectCode(branch, level))
+        .join(" | ");
+    }
+    if (isRecord<RecordType<Property>>(type)) {
+      return `Record<string, ${typeCode(type.values, level)}>`;
+    }
+    if (isArray(type)) {
+      const item = type[0].type;
+      const code = typeCode(type[0], level);
+      const isUnionType =
+        (isEnum(item) && item.values.length > 1) ||
+        (isUnion<ParsedUnion>(item) && Object.keys(item.branches).length > 1);
+      return isUnionType ? `(${code})[]` : `${code}[]`;
+    }
+    if (!isObject(type)) {
+      throw new Error(`Invalid type '${String(type)}' for '${property.key}'`);
+    }
+    return objectCode(type as Record<string, Property>, level);
+  }
+
+  // optional fields without a default can be undefined, like Infer
+  function fieldsCode(fields: Record<string, Property>, level: number) {
+    const pad = "  ".repeat(level + 1);
+    return Object.entries(fields).map(([key, property]) => {
+      const type = typeCode(property, level + 1);
+      const optional = property.optional && property.default === undefined;
+      return `${pad}${propertyName(key)}: ${optional ? `${type} | undefined` : type};`;
+    });
+  }
+
+  function objectCode(fields: Record<string, Property>, level: number) {
+    const code = fieldsCode(fields, level);
+    if (code.length === 0) return "{}";
+    return `{\n${code.join("\n")}\n${"  ".repeat(level)}}`;
+  }
+
+  function interfaceCode(name: string, fields: Record<string, Property>) {
+    return `export interface ${name} {\n${fieldsCode(fields, 0).join("\n")}\n}`;
+  }
+
+  const validators = parsed.map(([name, , fields]) => {
+    const type = typeName(name);
+    declarations.push(interfaceCode(type, fields));
+    const { body, constants } = generateCode(fields, {
+      defaults: {
+        arrayLimit: DEFAULT_ARRAY_LIMIT,
+        maxKeys: DEFAULT_MAX_KEYS,
+        maxDepth: DEFAULT_MAX_DEPTH,
+      },
+      resolve: resolveLazy,
+      typed: true,
+    });
+    const code = [
+      `export const validate${type} = (() => {`,
+      ...constants.map(
+        (constant, index) => `const c${index} = ${serialize(constant)};`,
+      ),
+      "const schema: __PukkaSchema = (input, data, safeData, options, errors, inputs) => {",
+      body,
+      "};",
+      `return (input: unknown, options: ValidatorOptions = {}) => run<${type}>(schema, input, options);`,
+      "})();",
+    ];
+    return indent(code.join("\n"));
+  });
+
+  return [
+    "// Generated by pukka, do not edit",
+    "/* eslint-disable */",
+    "",
+    RUNTIME,
+    "",
+    ...declarations.flatMap((declaration) => [declaration, ""]),
+    validators.join("\n\n"),
+    "",
+  ].join("\n");
+}
@@ -1,12 +1,27 @@
 import type {
+  CustomError,
+  EnumType,
   Errors,
-  FormHelper,
+  Field,
   Infer,
+  InputAttrs,
   Issues,
+  LazyType,
+  ObjectRules,
+  ParsedUnion,
+  Property,
+  RecordType,
   Schema,
-  ValidationResult,
+  UnionType,
+  ValidationIssue,
 } from "./types";
 
+/**
+ * tags types created by helpers like oneOf, so they can't be mistaken for nested schemas,
+ * registered so the CLI recognizes schemas built with another copy of pukka
+ */
+export const KIND = Symbol.for("pukka.kind");
+
 export const isObject = (value: unknown): value is object => {
   return (
     value != null &&
@@ -19,56 +34,243 @@ export const isArray = (value: unknown): value is unknown[] => {
   return Array.isArray(value);
 };
 
-/** primitives to string */
+export const isField = (value: unknown): value is Field => {
+  return isObject(value) && (value as any)[KIND] === "field";
+};
+
+export const isEnum = (value: unknown): value is EnumType => {
+  return isObject(value) && (value as any)[KIND] === "enum";
+};
+
+export const isRecord = <T extends RecordType<any>>(
+  value: unknown,
+): value is T => {
+  return isObject(value) && (value as any)[KIND] === "record";
+};
+
+export const isLazy = (value: unknown): value is LazyType => {
+  return isObject(value) && (value as any)[KIND] === "lazy";
+};
+
+export const isUnion = <T extends UnionType<string, any>>(
+  value: unknown,
+): value is T => {
+  return isObject(value) && (value as any)[KIND] === "union";
+};
+
+/** primitives to string, dates to the format of date and datetime-local inputs */
 export const stringify = (value: unknown) => {
+  if (value instanceof Date) return formatDate(value);
   return value == null || typeof value === "object" ? "" : String(value);
 };
 
+/** 2024-01-15 for midnight UTC, else 2024-01-15T10:30 with seconds if any */
+const formatDate = (date: Date) => {
+  if (Number.isNaN(date.getTime())) return "";
+  const iso = date.toISOString();
+  if (iso.endsWith("T00:00:00.000Z")) return iso.substring(0, 10);
+  return iso.replace(/(:00)?\.000Z$|Z$/, "");
+};
+
+// structured issues of an errors object, kept aside so its shape doesn't change
+const issueLists = new WeakMap<Errors, ValidationIssue[]>();
+
+/** issues in the order their errors were added */
+export const getIssues = (errors: Errors) => {
+  let issues = issueLists.get(errors);
+  if (issues == null) {
+    issues = [];
+    issueLists.set(errors, issues);
+  }
+  return issues;
+};
+
 export const addError = (
   errors: Errors,
   path: string,
   error: string,
   value?: unknown,
+  { code, params = {} }: Omit<CustomError, "message"> = { code: "custom" },
 ) => {
   if (errors[path] == null) {
     errors[path] = { value: stringify(value), errors: [error] };
   } else {
     errors[path].errors.push(error);
   }
-};
-
-export const form = {
-  helper: <Data extends Record<string, unknown>>({
-    data,
-    errors,
-  }: Omit<ValidationResult<Data>, "success">) => {
-    return proxy(data, errors) as FormHelper<Data>;
-  },
+  getIssues(errors).push({ path, code, params, message: error });
 };
 
 export const createIssues = <S extends Schema>(
   input: unknown,
   errors: Errors,
-) => proxy(input, errors) as unknown as Issues<Infer<S>>;
+  inputs?: Record<string, unknown>,
+) => proxy(input, errors, inputs) as unknown as Issues<Infer<S>>;
 
-const makePath = (currentPath: string, prop: string) => {
-  const index = Number(prop);
-  const isArrayIndex = !Number.isNaN(index);
-  const key = isArrayIndex ? `[${index}]` : prop;
-  const dot = currentPath === "" || isArrayIndex ? "" : ".";
+/** rules of the fields, undefined when they have none */
+export function objectRules(
+  fields: Record<string, Property>,
+): ObjectRules | undefined {
+  const rules: ObjectRules = { fields: {}, labels: {} };
+  for (const [key, field] of Object.entries(fields)) {
+    const { requiredIf, forbiddenIf, equalsField, atLeastOneOf } = field;
+    const fieldRules = { requiredIf, forbiddenIf, equalsField, atLeastOneOf };
+    if (Object.values(fieldRules).some((rule) => rule != null)) {
+      rules.fields[key] = Object.fromEntries(
+        Object.entries(fieldRules).filter(([, rule]) => rule != null),
+      );
+    }
+    if (field.label != null) rules.labels[key] = field.label;
+  }
+  return Object.keys(rules.fields).length > 0 ? rules : undefined;
+}
+
+// foo[1] for array items, foo.1 for object and record keys, like the paths of errors
+const makePath = (currentPath: string, prop: string, isItem: boolean) => {
+  const key = isItem ? `[${Number(prop)}]` : prop;
+  const dot = currentPath === "" || isItem ? "" : ".";
   return `${currentPath}${dot}${key}`;
 };
 
 /** key for translations: foo[1].bar => foo.bar */
 export const getKey = (path: string) => path.replace(/\[\s*(\d+)\s*\]/g, "");
 
+/** last segment of a key, camelCase as words: address.zipCode => Zip Code */
+export const words = (key: string, upper: boolean) => {
+  const name = key.split(".").pop() ?? "";
+  const first = name.substring(0, 1).toUpperCase();
+  const rest = name
+    .substring(1)
+    .replace(
+      /([a-z])([A-Z])/g,
+      (_, l: string, u: string) => `${l} ${upper ? u : u.toLowerCase()}`,
+    );
+  return `${first}${rest}`;
+};
+
+/** parsed schema for form.helper, lazy schemas are resolved by the validator */
+export type ProxySchema = {
+  property: Property;
+  resolve: (type: LazyType) => Record<string, Property>;
+};
+
+/** property of a field, union branches are searched in order */
+function childProperty(
+  { property, resolve }: ProxySchema,
+  prop: string,
+): Property | undefined {
+  const { type } = property;
+  if (isArray(type)) return type[0];
+  if (isRecord<RecordType<Property>>(type)) return type.values;
+  if (isLazy(type)) return resolve(type)[prop];
+  if (isUnion<ParsedUnion>(type)) {
+    return Object.values(type.branches).find((fields) => prop in fields)?.[
+      prop
+    ];
+  }
+  return isObject(type) && !isEnum(type)
+    ? (type as Record<string, Property>)[prop]
+    : undefined;
+}
+
+const INPUT_TYPES: Record<string, string> = {
+  number: "number",
+  integer: "number",
+  bigint: "number",
+  boolean: "checkbox",
+  file: "file",
+  date: "date",
+  datetime: "datetime-local",
+};
+
+/** "image/*, .pdf" or ["image/*", ".pdf"] => ["image/*", ".pdf"] */
+export const acceptList = (accept: string | readonly string[]) =>
+  [accept]
+    .flat()
+    .flatMap((item) => item.split(","))
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+
+/** browsers match the whole value, so only anchored patterns without flags */
+const htmlPattern = (pattern?: RegExp) => {
+  const { source, flags } = pattern ?? {};
+  return source?.startsWith("^") &&
+    source.endsWith("$") &&
+    !/[imsy]/.test(flags ?? "")
+    ? source
+    : undefined;
+};
+
+/** input attributes from the parsed property, name uses aliases */
+function inputAttrs(
+  name: string,
+  value: unknown,
+  errors: string[],
+  property?: Property,
+): InputAttrs {
+  const attrs: InputAttrs = { name };
+  const item = property && isArray(property.type) ? property.type[0] : property;
+  const type = typeof item?.type === "string" ? item.type : undefined;
+
+  attrs.placeholder = property?.placeholder;
+  if (type === "boolean") {
+    attrs.value = "true";
+    attrs.checked = value === true || value === "true";
+  } else if (type !== "file") {
+    attrs.value = stringify(value);
+  }
+  if (type != null && INPUT_TYPES[type]) attrs.type = INPUT_TYPES[type];
+  if (
+    property != null &&
+    !property.optional &&
+    property.default === undefined
+  ) {
+    attrs.required = true;
+  }
+  // the attribute only applies to file inputs among the input types used here
+  if (property != null && isArray(property.type) && attrs.type === "file") {
+    attrs.multiple = true;
+  }
+
+  const { min, max, length, pattern } = item ?? {};
+  if (type === "string") {
+    if ((length ?? min) != null) attrs.minLength = length ?? min;
+    if ((length ?? max) != null) attrs.maxLength = length ?? max;
+    attrs.pattern = htmlPattern(pattern);
+  } else if (type === "number" || type === "integer" || type === "bigint") {
+    attrs.min = min;
+    attrs.max = max;
+  } else if (type === "file" && item?.accept != null) {
+    attrs.accept = acceptList(item.accept).join(", ");
+  }
+
+  if (errors.length > 0) {
+    attrs["aria-invalid"] = true;
+    attrs["aria-describedby"] = `${name}-error`;
+  }
+  // no undefined keys when spread
+  return Object.fromEntries(
+    Object.entries(attrs).filter(([, value]) => value !== undefined),
+  ) as InputAttrs;
+}
+
 /**
  * Proxy used by both issues and form.helper
  */
-function proxy(input: unknown, errors?: Errors) {
+export function proxy(
+  input: unknown,
+  errors?: Errors,
+  inputs: Record<string, unknown> = {},
+  schema?: ProxySchema,
+) {
   errors ??= {};
 
-  type Target = { path: string; value: any; length?: number };
+  type Target = {
+    path: string;
+    value: any;
+    name: string;
+    property?: Property;
+    length?: number;
+  };
 
   const handler = {
     get(target: Target, prop: string) {
@@ -86,34 +288,88 @@ function proxy(input: unknown, errors?: Errors) {
       // issues.push
       if (prop === "push") {
         const { path, value } = target;
-        return (error: string | ((key: string) => string)) => {
+        return (error: string | ((key: string) => string) | CustomError) => {
           if (typeof error === "function") {
             error = error(getKey(path));
           }
-          addError(errors, path, error, value);
+          const { message, ...issue } =
+            typeof error === "string"
+              ? { message: error, code: "custom" }
+              : error;
+          // transformed fields report what was submitted
+          const submitted = path in inputs ? inputs[path] : value;
+          addError(errors, path, message, submitted, issue);
         };
       }
       // formHelper.path
       if (prop === "path") {
         return target.path;
       }
-      // formHelper.value
+      // formHelper.value, submitted value of a field with errors, which may differ after a transform
       if (prop === "value") {
-        const value = target.value ?? errors[target.path]?.value;
+        const value = errors[target.path]?.value ?? target.value;
         return stringify(value);
       }
       // formHelper.errors
       if (prop === "errors") {
         return errors[target.path]?.errors ?? [];
       }
-      const path = makePath(target.path, prop);
+      // formHelper.label, description and placeholder, with a schema that has the field as a leaf,
+      // anything else can have fields with these names
+      if (
+        (prop === "label" ||
+          prop === "description" ||
+          prop === "placeholder") &&
+        target.property != null &&
+        !isObjectNode(target)
+      ) {
+        const { property, path } = target;
+        return prop === "label"
+          ? (property?.label ?? words(getKey(path), true))
+          : property?.[prop];
+      }
+      // formHelper.attrs, not for objects so their fields can have this name
+      if (prop === "attrs" && !isObjectNode(target)) {
+        const { name, value, property } = target;
+        const fieldErrors = errors[target.path]?.errors ?? [];
+        return inputAttrs(
+          name,
+          errors[target.path]?.value ?? value,
+          fieldErrors,
+          property,
+        );
+      }
+      const isItem = isItemOf(target, prop);
+      const path = makePath(target.path, prop, isItem);
       const value =
         isArray(target.value) || isObject(target.value)
           ? (target.value as any)[prop]
           : undefined;
-      return new Proxy({ path, value }, handler);
+      const property =
+        schema && target.property
+          ? childProperty({ ...schema, property: target.property }, prop)
+          : undefined;
+      const name = makePath(target.name, property?.alias ?? prop, isItem);
+      return new Proxy({ path, value, name, property }, handler);
     },
   };
 
-  return new Proxy({ path: "", value: input }, handler);
+  // items of arrays in the schema or the value, numbers when there is neither
+  const isItemOf = ({ property, value }: Target, prop: string) =>
+    property
+      ? isArray(property.type)
+      : value != null
+        ? isArray(value)
+        : !Number.isNaN(Number(prop));
+
+  // with a schema the property decides, else the value
+  const isObjectNode = ({ property, value }: Target) =>
+    property
+      ? !isArray(property.type) &&
+        typeof property.type !== "string" &&
+        !isEnum(property.type)
+      : isObject(value);
+
+  const root = { path: "", value: input, name: "", property: schema?.property };
+  return new Proxy(root, handler);
 }
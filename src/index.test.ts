@@ -1,5 +1,34 @@
 import { describe, expect, expectTypeOf, it, test } from "vitest";
-import { form, object, usingContext, validator } from "./index";
+import ts from "typescript";
+import {
+  type Infer,
+  type InferInput,
+  type JSONSchema,
+  type Schema,
+  deepPartial,
+  extend,
+  field,
+  form,
+  fromJSONSchema,
+  generate,
+  generateValidators,
+  lazy,
+  locales,
+  merge,
+  object,
+  omit,
+  oneOf,
+  partial,
+  pick,
+  record,
+  required,
+  toFormData,
+  toJSONSchema,
+  toSearchParams,
+  union,
+  usingContext,
+  validator,
+} from "./index";
 
 const schema = object({
   string: "string",
@@ -568,3 +597,2781 @@ test.each([
     },
   });
 });
+
+describe("async validator", () => {
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  it("should validate without callback", async () => {
+    const validate = validator.forAsync(schema);
+    const { success, data } = await validate(input);
+    expect(success).toBe(true);
+    expect(data.alias).toBe("jdoe");
+  });
+
+  it("should allow issues to be pushed after await", async () => {
+    const validate = validator.forAsync(schema, async (data, issues) => {
+      await sleep(1);
+      if (data.string === "string") {
+        issues.string.push("String already taken");
+      }
+    });
+
+    const { success, errors } = await validate(input);
+
+    expect(success).toBe(false);
+    expect(errors).toEqual({
+      string: { value: "string", errors: ["String already taken"] },
+    });
+  });
+
+  it("should return schema errors along with callback issues", async () => {
+    const validate = validator.forAsync(schema, async (data, issues) => {
+      issues.boolean.push("boolean error");
+    });
+
+    const { errors } = await validate(invalid);
+
+    expect(errors.boolean.errors).toEqual([
+      "Expected 'boolean', received 'b'",
+      "boolean error",
+    ]);
+  });
+
+  it("should support runtime context", async () => {
+    const validate = validator.forAsync(
+      schema,
+      usingContext<SomeRuntimeCtx>(),
+      async (data, issues, ctx) => {
+        await sleep(1);
+        if (!ctx.allowedStrings.includes(data.string)) {
+          issues.string.push("not allowed");
+        }
+      },
+    );
+
+    const ok = await validate(input, { allowedStrings: ["string"] });
+    expect(ok.success).toBe(true);
+
+    const failed = await validate(input, { allowedStrings: [] });
+    expect(failed.errors.string.errors).toEqual(["not allowed"]);
+  });
+
+  it("should map rejected promise to exception", async () => {
+    const validate = validator.forAsync(schema, async () => {
+      throw new Error("db error");
+    });
+
+    const { success, errors } = await validate(input);
+
+    expect(success).toBe(false);
+    expect(errors[""]).toEqual({
+      value: "",
+      errors: ["Exception: db error"],
+    });
+  });
+
+  it("should time out and discard late issues", async () => {
+    const validate = validator.forAsync(schema, async (data, issues) => {
+      await sleep(50);
+      issues.string.push("late issue");
+    });
+
+    const { errors } = await validate(input, {
+      timeout: 1,
+      errorMessage: (key, err) => {
+        if (err.code === "exception") return `${err.error.name}`;
+      },
+    });
+
+    await sleep(60);
+
+    expect(errors).toEqual({ "": { value: "", errors: ["TimeoutError"] } });
+  });
+
+  it("should abort with signal", async () => {
+    let callbackSignal: AbortSignal | undefined;
+
+    const validate = validator.forAsync(
+      schema,
+      async (data, issues, ctx, signal) => {
+        callbackSignal = signal;
+        await sleep(50);
+      },
+    );
+
+    const controller = new AbortController();
+    const pending = validate(input, { signal: controller.signal });
+    controller.abort(new Error("cancelled"));
+
+    const { success, errors } = await pending;
+
+    expect(success).toBe(false);
+    expect(callbackSignal?.aborted).toBe(true);
+    expect(errors[""].errors).toEqual(["Exception: cancelled"]);
+  });
+
+  it("should fail when signal is already aborted", async () => {
+    const validate = validator.forAsync(schema, () => {});
+
+    const { errors } = await validate(input, {
+      signal: AbortSignal.abort("stop"),
+    });
+
+    expect(errors[""].errors).toEqual(["Exception: stop"]);
+  });
+
+  test("async validator result type", () => {
+    const validateAsync = validator.forAsync(schema);
+    expectTypeOf(validateAsync(input)).resolves.toEqualTypeOf<
+      ReturnType<typeof validate>
+    >();
+  });
+});
+
+describe("constraints", () => {
+  const schema = object({
+    name: "string(3..10)",
+    age: field({ type: "number", min: 0, max: 120 }),
+    code: field({ type: "string", length: 4, pattern: /^\d+$/ }),
+    "tags?": field({ type: ["string(..5)"], min: 1, max: 2 }),
+    "balance?": "bigint(0..)",
+    "scores?": [field({ type: "number(..100)", min: 1 })],
+  });
+
+  const validate = validator.for(schema);
+
+  it("should pass valid values", () => {
+    const { success, errors } = validate({
+      name: "John",
+      age: "42",
+      code: "1234",
+      tags: ["a", "b"],
+      balance: "10",
+      scores: [1, 100],
+    });
+    expect(success).toBe(true);
+    expect(errors).toEqual({});
+  });
+
+  it("should report too small, too big and pattern errors", () => {
+    const { success, errors } = validate({
+      name: "Jo",
+      age: 121,
+      code: "12a",
+      tags: ["toolong", "b", "c"],
+      balance: -1n,
+      scores: [0, 101],
+    });
+    expect(success).toBe(false);
+    expect(errors).toEqual({
+      name: { value: "Jo", errors: ["Length 2 is less than minimum 3"] },
+      age: { value: "121", errors: ["Value 121 is greater than maximum 120"] },
+      code: {
+        value: "12a",
+        errors: [
+          "Length 3 is less than minimum 4",
+          "Expected to match '^\\d+$', received '12a'",
+        ],
+      },
+      tags: { value: "", errors: ["Length 3 is greater than maximum 2"] },
+      "tags[0]": {
+        value: "toolong",
+        errors: ["Length 7 is greater than maximum 5"],
+      },
+      balance: { value: "-1", errors: ["Value -1 is less than minimum 0"] },
+      "scores[0]": { value: "0", errors: ["Value 0 is less than minimum 1"] },
+      "scores[1]": {
+        value: "101",
+        errors: ["Value 101 is greater than maximum 100"],
+      },
+    });
+  });
+
+  it("should pass constraint errors to error message override", () => {
+    const { errors } = validate(
+      { name: "Jo", age: -1, code: "abcd", tags: [] },
+      {
+        errorMessage: (key, error) => {
+          if (error.code === "too_small") {
+            return `${key}: ${error.type} ${error.received} < ${error.min}`;
+          }
+          if (error.code === "pattern") {
+            return `${key}: invalid format`;
+          }
+        },
+      },
+    );
+    expect(errors).toEqual({
+      name: { value: "Jo", errors: ["name: string 2 < 3"] },
+      age: { value: "-1", errors: ["age: number -1 < 0"] },
+      code: { value: "abcd", errors: ["code: invalid format"] },
+      tags: { value: "", errors: ["tags: array 0 < 1"] },
+    });
+  });
+
+  it("should throw for invalid range", () => {
+    expect(() => validator.for({ name: "string(a..b)" })).toThrow(
+      "Invalid type 'string(a..b)'",
+    );
+  });
+
+  it("should treat nested object with a type field as object", () => {
+    const validate = validator.for({ item: { type: "string" } });
+    const { data } = validate({ item: { type: "a" } });
+    expect(data).toStrictEqual({ item: { type: "a" } });
+  });
+
+  test("integers", () => {
+    const quantity = validator.for({ quantity: "integer(1..)" });
+    expect(quantity({ quantity: "2" }).data).toEqual({ quantity: 2 });
+    expect(quantity({ quantity: 0 }).errors.quantity.errors).toEqual([
+      "Value 0 is less than minimum 1",
+    ]);
+    expect(quantity({ quantity: 1.5 }).errors.quantity.errors).toEqual([
+      "Expected 'integer', received '1.5'",
+    ]);
+    expectTypeOf(quantity({}).data.quantity).toEqualTypeOf<
+      number | undefined
+    >();
+  });
+
+  test("nested objects with field option keys", () => {
+    const nested = validator.for({
+      item: { type: "string", description: "string" },
+      range: { type: "number(1..)", min: "number" },
+    });
+    const { success, data } = nested({
+      item: { type: "a", description: "b" },
+      range: { type: 1, min: 2 },
+    });
+    expect(success).toBe(true);
+    expect(data).toEqual({
+      item: { type: "a", description: "b" },
+      range: { type: 1, min: 2 },
+    });
+    if (success) {
+      expectTypeOf(data.item).toEqualTypeOf<{
+        type: string;
+        description: string;
+      }>();
+    }
+    expect(nested({ item: "a", range: 1 }).errors).toHaveProperty("item");
+  });
+
+  test("fields with any option values", () => {
+    const validate = validator.for({
+      "sortBy?": field({ type: oneOf(["name", "date"]), default: "date" }),
+      kind: field({ type: "string", example: "number", label: "Kind" }),
+    });
+    expect(validate({ sortBy: "name", kind: "a" }).data).toEqual({
+      sortBy: "name",
+      kind: "a",
+    });
+    expect(validate({}).data).toEqual({ sortBy: "date", kind: undefined });
+    expect(validate({}).errors.kind.errors).toEqual(["Kind is required"]);
+  });
+
+  test("unknown type names", () => {
+    expect(() => validator.for({ name: "strnig" as any })).toThrow(
+      "Invalid type 'strnig' for 'name'",
+    );
+    expect(() => validator.for({ tags: ["numbr" as any] })).toThrow(
+      "Invalid type 'numbr' for '0'",
+    );
+  });
+
+  test("constrained fields infer primitive types", () => {
+    const { success, data } = validate({});
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        name: string;
+        age: number;
+        code: string;
+        tags: string[] | undefined;
+        balance: bigint | undefined;
+        scores: number[] | undefined;
+      }>();
+    }
+    validate(
+      {},
+      {
+        errorMessage: (key) => {
+          type Keys =
+            | ""
+            | "name"
+            | "age"
+            | "code"
+            | "tags"
+            | "balance"
+            | "scores";
+          const schemaKey: Keys = key;
+          return schemaKey;
+        },
+      },
+    );
+  });
+});
+
+describe("enums", () => {
+  const schema = object({
+    status: oneOf(["draft", "published"]),
+    rating: oneOf([1, 2, 3]),
+    terms: oneOf([true]),
+    "roles?": [oneOf(["admin", "user"])],
+  });
+
+  const validate = validator.for(schema);
+
+  it("should coerce form values to literals", () => {
+    const formdata = new FormData();
+    formdata.append("status", "draft");
+    formdata.append("rating", "2");
+    formdata.append("terms", "true");
+    formdata.append("roles", "admin");
+
+    const { success, data } = validate(formdata);
+
+    expect(success).toBe(true);
+    expect(data).toStrictEqual({
+      status: "draft",
+      rating: 2,
+      terms: true,
+      roles: ["admin"],
+    });
+  });
+
+  it("should report values not in enum", () => {
+    const { success, data, errors } = validate({
+      status: "archived",
+      rating: 4,
+      terms: false,
+      roles: ["guest"],
+    });
+
+    expect(success).toBe(false);
+    expect(data.status).toBe(undefined);
+    expect(errors).toEqual({
+      status: {
+        value: "archived",
+        errors: ["Expected one of 'draft', 'published', received 'archived'"],
+      },
+      rating: {
+        value: "4",
+        errors: ["Expected one of '1', '2', '3', received '4'"],
+      },
+      terms: {
+        value: "false",
+        errors: ["Expected one of 'true', received 'false'"],
+      },
+      "roles[0]": {
+        value: "guest",
+        errors: ["Expected one of 'admin', 'user', received 'guest'"],
+      },
+    });
+  });
+
+  it("should pass allowed values to error message override", () => {
+    const { errors } = validate(
+      { status: "archived", rating: 1, terms: true },
+      {
+        errorMessage: (key, error) => {
+          if (error.code === "enum") {
+            return `${key} must be ${error.values.join(" or ")}`;
+          }
+        },
+      },
+    );
+    expect(errors.status.errors).toEqual(["status must be draft or published"]);
+  });
+
+  it("should pass first value to callback for missing enum", () => {
+    let status = "";
+    const validate = validator.for(schema, (data) => {
+      status = data.status;
+    });
+    validate({});
+    expect(status).toBe("draft");
+  });
+
+  test("enum infers union of literals", () => {
+    const { success, data } = validate({});
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        status: "draft" | "published";
+        rating: 1 | 2 | 3;
+        terms: true;
+        roles: ("admin" | "user")[] | undefined;
+      }>();
+    }
+  });
+});
+
+describe("unions", () => {
+  const schema = object({
+    payment: union("method", {
+      card: { cardNumber: "string", cvv: "string(3..4)" },
+      bank: { iban: "string" },
+    }),
+    "items?": [
+      union("kind", {
+        book: { isbn: "string" },
+        gift: { "message?": "string" },
+      }),
+    ],
+  });
+
+  const validate = validator.for(schema);
+
+  it("should validate matching branch only", () => {
+    const formdata = new FormData();
+    formdata.append("payment.method", "bank");
+    formdata.append("payment.iban", "DE89");
+    formdata.append("payment.cardNumber", "4111");
+    formdata.append("items[0].kind", "gift");
+
+    const { success, data, errors } = validate(formdata);
+
+    expect(success).toBe(true);
+    expect(errors).toEqual({});
+    expect(data).toStrictEqual({
+      payment: { method: "bank", iban: "DE89" },
+      items: [{ kind: "gift", message: undefined }],
+    });
+  });
+
+  it("should report errors in matching branch", () => {
+    const { errors } = validate({ payment: { method: "card", cvv: "12" } });
+
+    expect(errors).toEqual({
+      "payment.cardNumber": {
+        value: "",
+        errors: ["Card Number is required"],
+      },
+      "payment.cvv": {
+        value: "12",
+        errors: ["Length 2 is less than minimum 3"],
+      },
+    });
+  });
+
+  it("should report discriminator when nothing matches", () => {
+    const { data, errors } = validate({
+      payment: { method: "cash" },
+      items: [{ isbn: "1" }],
+    });
+
+    expect(data).toStrictEqual({
+      payment: { method: undefined },
+      items: [{ kind: undefined }],
+    });
+    expect(errors).toEqual({
+      "payment.method": {
+        value: "cash",
+        errors: ["Expected one of 'card', 'bank', received 'cash'"],
+      },
+      "items[0].kind": {
+        value: "",
+        errors: ["Kind is required"],
+      },
+    });
+  });
+
+  it("should pass first branch defaults to callback when nothing matches", () => {
+    let payment = {};
+    const validate = validator.for(schema, (data) => {
+      payment = data.payment;
+    });
+    validate({});
+    expect(payment).toStrictEqual({ method: "card", cardNumber: "", cvv: "" });
+  });
+
+  it("should narrow data in callback", () => {
+    const validate = validator.for(schema, (data, issues) => {
+      if (data.payment.method === "card") {
+        expectTypeOf(data.payment.cvv).toEqualTypeOf<string>();
+        if (data.payment.cardNumber.startsWith("0")) {
+          issues.payment.cardNumber.push("Invalid card");
+        }
+      } else {
+        expectTypeOf(data.payment.iban).toEqualTypeOf<string>();
+      }
+    });
+
+    const { errors } = validate({
+      payment: { method: "card", cardNumber: "0000", cvv: "123" },
+    });
+
+    expect(errors["payment.cardNumber"].errors).toEqual(["Invalid card"]);
+  });
+
+  it("should expose fields of all branches in form helper", () => {
+    const result = validate({ payment: { method: "card", cvv: "1" } });
+    const f = form.helper(result);
+
+    expect(f.payment.method.value).toBe("card");
+    expect(f.payment.cvv.value).toBe("1");
+    expect(f.payment.cvv.errors).toEqual(["Length 1 is less than minimum 3"]);
+    expect(f.payment.iban.path).toBe("payment.iban");
+    expect(f.payment.iban.errors).toEqual([]);
+  });
+
+  test("union infers discriminated union type", () => {
+    const { success, data } = validate({});
+    if (success) {
+      expectTypeOf(data.payment).toEqualTypeOf<
+        | { method: "card"; cardNumber: string; cvv: string }
+        | { method: "bank"; iban: string }
+      >();
+      expectTypeOf(data.items).toEqualTypeOf<
+        | (
+            | { kind: "book"; isbn: string }
+            | { kind: "gift"; message: string | undefined }
+          )[]
+        | undefined
+      >();
+    }
+  });
+});
+
+describe("dates", () => {
+  const schema = object({
+    dob: "date",
+    "meeting?": "datetime",
+  });
+
+  const validate = validator.for(schema);
+
+  it("should coerce form values to dates", () => {
+    const formdata = new FormData();
+    formdata.append("dob", "2000-02-29");
+    formdata.append("meeting", "2024-01-15T10:30");
+
+    const { success, data } = validate(formdata);
+
+    expect(success).toBe(true);
+    expect(data).toStrictEqual({
+      dob: new Date("2000-02-29T00:00:00Z"),
+      meeting: new Date("2024-01-15T10:30:00Z"),
+    });
+  });
+
+  it("should coerce iso strings, epoch numbers and dates", () => {
+    const { data } = validate({
+      dob: "2000-01-01T23:30:00-05:00",
+      meeting: 0,
+    });
+    expect(data.dob).toEqual(new Date("2000-01-02T00:00:00Z"));
+    expect(data.meeting).toEqual(new Date(0));
+
+    const meeting = new Date();
+    const { data: data2 } = validate({ dob: meeting, meeting });
+    expect(data2.meeting).toBe(meeting);
+  });
+
+  it.each(["2024-02-30", "2024-13-01", "2024-01-15T24:00", "1", "today"])(
+    "should reject invalid date %s",
+    (dob) => {
+      const { success, errors } = validate({ dob });
+      expect(success).toBe(false);
+      expect(errors.dob).toEqual({
+        value: dob,
+        errors: [`Expected 'date', received '${dob}'`],
+      });
+    },
+  );
+
+  it("should round trip dates in form helper", () => {
+    const result = validate({
+      dob: "2000-02-29",
+      meeting: "2024-01-15T10:30:45Z",
+    });
+    const f = form.helper(result);
+    expect(f.dob.value).toBe("2000-02-29");
+    expect(f.meeting.value).toBe("2024-01-15T10:30:45");
+  });
+
+  it("should pass epoch to callback for missing date", () => {
+    let dob: Date | undefined;
+    const validate = validator.for(schema, (data) => {
+      dob = data.dob;
+    });
+    validate({});
+    expect(dob).toEqual(new Date(0));
+  });
+
+  test("dates infer Date", () => {
+    const { success, data } = validate({});
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        dob: Date;
+        meeting: Date | undefined;
+      }>();
+    }
+  });
+});
+
+describe("defaults", () => {
+  const schema = object({
+    "page=1": "number",
+    "pageSize:size?=20": "number",
+    "sort=name:asc": "string",
+    "order=asc": oneOf(["asc", "desc"]),
+    "archived?": field({ type: "boolean", default: false }),
+    filters: field({
+      type: {
+        "tags=all": ["string"],
+        "range?": field({
+          type: { "from=0": "number", "to?": "number" },
+          default: {},
+        }),
+      },
+      default: {},
+    }),
+    "items?": [{ "quantity=1": "number", sku: "string" }],
+    "q?": "string",
+  });
+
+  const validate = validator.for(schema);
+
+  it("should fill defaults for missing and null input", () => {
+    const { success, data } = validate({ page: null, items: [{ sku: "a" }] });
+
+    expect(success).toBe(true);
+    expect(data).toStrictEqual({
+      page: 1,
+      pageSize: 20,
+      sort: "name:asc",
+      order: "asc",
+      archived: false,
+      filters: { tags: ["all"], range: { from: 0, to: undefined } },
+      items: [{ quantity: 1, sku: "a" }],
+      q: undefined,
+    });
+  });
+
+  it("should not fill defaults for present input", () => {
+    const formdata = new FormData();
+    formdata.append("page", "2");
+    formdata.append("size", "50");
+    formdata.append("filters.tags", "new");
+    formdata.append("filters.range.to", "10");
+
+    const { data } = validate(formdata);
+
+    expect(data.page).toBe(2);
+    expect(data.pageSize).toBe(50);
+    expect(data.filters).toStrictEqual({
+      tags: ["new"],
+      range: { from: 0, to: 10 },
+    });
+  });
+
+  it("should pass defaults to callback", () => {
+    let callbackData = undefined as unknown;
+    const validate = validator.for(schema, (data) => {
+      callbackData = data;
+    });
+    validate({});
+    expect(callbackData).toStrictEqual({
+      page: 1,
+      pageSize: 20,
+      sort: "name:asc",
+      order: "asc",
+      archived: false,
+      filters: { tags: ["all"], range: { from: 0, to: 0 } },
+      items: [],
+      q: "",
+    });
+  });
+
+  it("should throw for invalid default", () => {
+    expect(() => validator.for({ "page=one": "number" })).toThrow(
+      "Invalid default 'one' for 'page'",
+    );
+    expect(() => validator.for({ "page=1": { a: "number" } })).toThrow(
+      "Invalid default '1' for 'page'",
+    );
+  });
+
+  test("defaulted fields are not optional", () => {
+    const { success, data } = validate({});
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        page: number;
+        pageSize: number;
+        sort: string;
+        order: "asc" | "desc";
+        archived: boolean;
+        filters: {
+          tags: string[];
+          range: { from: number; to: number | undefined };
+        };
+        items: { quantity: number; sku: string }[] | undefined;
+        q: string | undefined;
+      }>();
+    }
+  });
+});
+
+describe("records", () => {
+  const schema = object({
+    translations: record("string(1..)"),
+    "quantities?": record("number(1..)", {
+      pattern: /^[A-Z0-9]+$/,
+      maxKeys: 3,
+    }),
+    "addresses?": record({ city: "string" }),
+  });
+
+  const validate = validator.for(schema);
+
+  it("should validate form data with dynamic keys", () => {
+    const formdata = new FormData();
+    formdata.append("translations.en", "Hello");
+    formdata.append("translations.fr", "Bonjour");
+    formdata.append("quantities.ABC123", "4");
+    formdata.append("quantities.123", "1");
+    formdata.append("addresses.home.city", "Paris");
+
+    const { success, data, errors } = validate(formdata);
+
+    expect(errors).toEqual({});
+    expect(success).toBe(true);
+    expect(data).toStrictEqual({
+      translations: { en: "Hello", fr: "Bonjour" },
+      quantities: { 123: 1, ABC123: 4 },
+      addresses: { home: { city: "Paris" } },
+    });
+  });
+
+  it("should report errors at entry path", () => {
+    const { data, errors } = validate({
+      translations: { en: "", fr: "Bonjour" },
+      quantities: { abc: 1, XYZ: 0 },
+      addresses: { home: {} },
+    });
+
+    expect(data).toStrictEqual({
+      translations: { en: "", fr: "Bonjour" },
+      quantities: { XYZ: 0 },
+      addresses: { home: { city: undefined } },
+    });
+    expect(errors).toEqual({
+      "translations.en": {
+        value: "",
+        errors: ["Length 0 is less than minimum 1"],
+      },
+      "quantities.abc": {
+        value: "1",
+        errors: ["Expected to match '^[A-Z0-9]+$', received 'abc'"],
+      },
+      "quantities.XYZ": {
+        value: "0",
+        errors: ["Value 0 is less than minimum 1"],
+      },
+      "addresses.home.city": { value: "", errors: ["City is required"] },
+    });
+  });
+
+  it("should limit number of keys", () => {
+    const { data, errors } = validate({
+      translations: { en: "Hello" },
+      quantities: { A: 1, B: 1, C: 1, D: 1 },
+    });
+    expect(data.quantities).toStrictEqual({});
+    expect(errors.quantities.errors).toEqual([
+      "Record size 4 is greater than limit 3",
+    ]);
+  });
+
+  it("should not coerce primitive to record", () => {
+    const { errors } = validate({ translations: "Hello" });
+    expect(errors.translations.errors).toEqual([
+      "Expected 'record', received 'Hello'",
+    ]);
+  });
+
+  it("should index issues and form helper by any key", () => {
+    const validate = validator.for(schema, (data, issues) => {
+      for (const [sku, quantity] of Object.entries(data.quantities ?? {})) {
+        if (quantity > 2) {
+          issues.quantities[sku].push((key) => `${key}: out of stock`);
+        }
+      }
+    });
+
+    const result = validate({
+      translations: { en: "Hello" },
+      quantities: { ABC: 3 },
+    });
+
+    expect(result.errors["quantities.ABC"].errors).toEqual([
+      "quantities.ABC: out of stock",
+    ]);
+
+    const f = form.helper(result);
+    expect(f.quantities.ABC.path).toBe("quantities.ABC");
+    expect(f.quantities.ABC.value).toBe("3");
+    expect(f.translations.en.value).toBe("Hello");
+  });
+
+  it("should use the error path for numeric keys", () => {
+    const validate = validator.for(schema, (data, issues) => {
+      if (data.quantities?.["456"] != null) {
+        issues.quantities["456"].push("Out of stock");
+      }
+    });
+
+    const result = validate({
+      translations: {},
+      quantities: { 123: 0, 456: 1 },
+    });
+
+    expect(Object.keys(result.errors)).toEqual([
+      "quantities.123",
+      "quantities.456",
+    ]);
+    for (const f of [form.helper(result), form.helper(result, schema)]) {
+      expect(f.quantities["123"].path).toBe("quantities.123");
+      expect(f.quantities["123"].errors).toEqual([
+        "Value 0 is less than minimum 1",
+      ]);
+      expect(f.quantities["456"].errors).toEqual(["Out of stock"]);
+    }
+    expect(form.helper(result, schema).quantities["123"].attrs.name).toBe(
+      "quantities.123",
+    );
+  });
+
+  test("record infers string keys", () => {
+    const { success, data } = validate({});
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        translations: Record<string, string>;
+        quantities: Record<string, number> | undefined;
+        addresses: Record<string, { city: string }> | undefined;
+      }>();
+    }
+  });
+});
+
+describe("unknown keys", () => {
+  const schema = object({
+    email: "string",
+    "name:n": "string",
+    address: { city: "string" },
+    "items?": [{ sku: "string" }],
+    lenient: field({ type: { a: "string" }, unknownKeys: "passthrough" }),
+  });
+
+  const validate = validator.for(schema);
+
+  const input = {
+    email: "a@b.c",
+    emial: "a@b.c",
+    n: "John",
+    address: { city: "Paris", zip: "75001" },
+    items: [{ sku: "a", qty: 1 }],
+    lenient: { a: "a", b: "b" },
+  };
+
+  it("should strip unknown keys by default", () => {
+    const { success, data } = validate(input);
+    expect(success).toBe(true);
+    expect(data).toStrictEqual({
+      email: "a@b.c",
+      name: "John",
+      address: { city: "Paris" },
+      items: [{ sku: "a" }],
+      lenient: { a: "a", b: "b" },
+    });
+  });
+
+  it("should pass through unknown keys", () => {
+    const { data } = validate(input, { unknownKeys: "passthrough" });
+    expect(data).toStrictEqual({
+      email: "a@b.c",
+      name: "John",
+      address: { city: "Paris", zip: "75001" },
+      items: [{ sku: "a", qty: 1 }],
+      lenient: { a: "a", b: "b" },
+      emial: "a@b.c",
+    });
+  });
+
+  it("should report unknown keys at full path", () => {
+    const { success, errors } = validate(input, { unknownKeys: "error" });
+    expect(success).toBe(false);
+    expect(errors).toEqual({
+      emial: { value: "a@b.c", errors: ["Unrecognized key 'emial'"] },
+      "address.zip": { value: "75001", errors: ["Unrecognized key 'zip'"] },
+      "items[0].qty": { value: "1", errors: ["Unrecognized key 'qty'"] },
+    });
+  });
+
+  it("should report unknown keys in form data and url search params", () => {
+    const formdata = new FormData();
+    const params = new URLSearchParams();
+    for (const entries of [formdata, params]) {
+      entries.append("email", "a@b.c");
+      entries.append("emial", "a@b.c");
+      entries.append("n", "John");
+      entries.append("address.city", "Paris");
+      entries.append("address.zip", "75001");
+      entries.append("items[0].sku", "a");
+      entries.append("items[0].qty", "1");
+      entries.append("lenient.a", "a");
+      entries.append("lenient.b", "b");
+    }
+
+    for (const entries of [formdata, params]) {
+      const { errors } = validate(entries, { unknownKeys: "error" });
+      expect(Object.keys(errors).sort()).toEqual([
+        "address.zip",
+        "emial",
+        "items[0].qty",
+      ]);
+
+      const { data } = validate(entries, { unknownKeys: "passthrough" });
+      expect(data).toStrictEqual({
+        email: "a@b.c",
+        name: "John",
+        address: { city: "Paris", zip: "75001" },
+        items: [{ sku: "a", qty: "1" }],
+        lenient: { a: "a", b: "b" },
+        emial: "a@b.c",
+      });
+    }
+  });
+
+  it("should allow override of unrecognized key message", () => {
+    const { errors } = validate(
+      { ...input, address: { city: "Paris" }, items: [] },
+      {
+        unknownKeys: "error",
+        errorMessage: (key, error) => {
+          if (error.code === "unrecognized_keys") {
+            return `Did you mean email? (${error.key})`;
+          }
+        },
+      },
+    );
+    expect(errors.emial.errors).toEqual(["Did you mean email? (emial)"]);
+  });
+
+  it("should check keys of matching union branch", () => {
+    const validate = validator.for({
+      payment: union("method", { bank: { iban: "string" } }),
+    });
+    const { errors } = validate(
+      { payment: { method: "bank", iban: "DE89", bic: "X" } },
+      { unknownKeys: "error" },
+    );
+    expect(Object.keys(errors)).toEqual(["payment.bic"]);
+  });
+});
+
+describe("json schema", () => {
+  test("schema with all types", () => {
+    expect(toJSONSchema(schema)).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        string: { type: "string" },
+        number: { type: "number" },
+        boolean: { type: "boolean" },
+        file: { type: "string", format: "binary" },
+        bigint: { type: "integer", format: "int64" },
+        array: { type: "array", items: { type: "string" } },
+        object: {
+          type: "object",
+          properties: {
+            a: { type: "number" },
+            b: {
+              type: "object",
+              properties: {
+                c: { type: "string" },
+                d: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: { e: { type: "string" } },
+                    required: ["e"],
+                  },
+                },
+              },
+              required: ["c", "d"],
+            },
+          },
+          required: ["a", "b"],
+        },
+        optional: { type: "number" },
+        aka: { type: "string" },
+      },
+      required: [
+        "string",
+        "number",
+        "boolean",
+        "file",
+        "bigint",
+        "array",
+        "object",
+        "aka",
+      ],
+    });
+  });
+
+  test("constraints, defaults, enums, unions and records", () => {
+    const schema = object({
+      name: field({ type: "string(3..50)", pattern: /^[a-z]+$/ }),
+      "age?": "number(0..120)",
+      "tags=all": field({ type: ["string"], min: 1, max: 5 }),
+      "dob?": "date",
+      "at?": field({
+        type: "datetime",
+        default: new Date("2024-01-15T10:30:00Z"),
+      }),
+      "total?": field({ type: "bigint", default: 0n }),
+      status: oneOf(["draft", "published"]),
+      terms: oneOf([true]),
+      payment: union("method", {
+        card: { cardNumber: field({ type: "string", length: 16 }) },
+        bank: { "iban?": "string" },
+      }),
+      quantities: record("number", { pattern: /^[A-Z]+$/, maxKeys: 10 }),
+      strict: field({ type: { a: "string" }, unknownKeys: "error" }),
+    });
+
+    expect(toJSONSchema(schema).properties).toEqual({
+      name: {
+        type: "string",
+        minLength: 3,
+        maxLength: 50,
+        pattern: "^[a-z]+$",
+      },
+      age: { type: "number", minimum: 0, maximum: 120 },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        minItems: 1,
+        maxItems: 5,
+        default: ["all"],
+      },
+      dob: { type: "string", format: "date" },
+      at: { type: "string", format: "date-time", default: "2024-01-15T10:30" },
+      total: { type: "integer", format: "int64", default: 0 },
+      status: { enum: ["draft", "published"] },
+      terms: { const: true },
+      payment: {
+        oneOf: [
+          {
+            type: "object",
+            properties: {
+              method: { const: "card" },
+              cardNumber: { type: "string", minLength: 16, maxLength: 16 },
+            },
+            required: ["method", "cardNumber"],
+          },
+          {
+            type: "object",
+            properties: {
+              method: { const: "bank" },
+              iban: { type: "string" },
+            },
+            required: ["method"],
+          },
+        ],
+      },
+      quantities: {
+        type: "object",
+        additionalProperties: { type: "number" },
+        propertyNames: { pattern: "^[A-Z]+$" },
+        maxProperties: 10,
+      },
+      strict: {
+        type: "object",
+        properties: { a: { type: "string" } },
+        required: ["a"],
+        additionalProperties: false,
+      },
+    });
+  });
+});
+
+describe("json schema import", () => {
+  const doc = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "Order",
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1, maxLength: 50 },
+      quantity: { type: "integer", minimum: 1 },
+      total: { type: "integer", format: "int64" },
+      express: { type: "boolean", default: false },
+      status: { enum: ["pending", "shipped"] },
+      tags: { type: "array", items: { type: "string" }, maxItems: 3 },
+      address: {
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+        additionalProperties: false,
+      },
+      notes: { type: "object", additionalProperties: { type: "string" } },
+    },
+    required: ["name", "quantity", "total", "status"],
+  } as const;
+
+  test("converts to a schema", () => {
+    expect(fromJSONSchema(doc)).toEqual({
+      name: field({ type: "string", min: 1, max: 50 }),
+      quantity: field({ type: "integer", min: 1 }),
+      total: "bigint",
+      "express?": field({ type: "boolean", default: false }),
+      status: oneOf(["pending", "shipped"]),
+      "tags?": field({ type: ["string"], max: 3 }),
+      "address?": field({ type: { city: "string" }, unknownKeys: "error" }),
+      "notes?": record("string"),
+    });
+    expect(toJSONSchema(fromJSONSchema(doc)).properties?.quantity).toEqual({
+      type: "integer",
+      minimum: 1,
+    });
+  });
+
+  test("validates and infers the type", () => {
+    const validate = validator.for(fromJSONSchema(doc));
+    const { success, data, errors } = validate({
+      name: "Desk",
+      quantity: "2",
+      total: "120",
+      status: "pending",
+      notes: { gift: "yes" },
+    });
+
+    expect(success).toBe(true);
+    expect(errors).toEqual({});
+    expect(data).toEqual({
+      name: "Desk",
+      quantity: 2,
+      total: 120n,
+      express: false,
+      status: "pending",
+      tags: [],
+      address: undefined,
+      notes: { gift: "yes" },
+    });
+
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        name: string;
+        quantity: number;
+        total: bigint;
+        express: boolean;
+        status: "pending" | "shipped";
+        tags: string[] | undefined;
+        address: { city: string } | undefined;
+        notes: Record<string, string> | undefined;
+      }>();
+    }
+
+    expect(validate({ ...data, quantity: 0 }).success).toBe(false);
+    expect(validate({ ...data, quantity: 1.5 }).errors.quantity.errors).toEqual(
+      ["Expected 'integer', received '1.5'"],
+    );
+    expect(validate({ ...data, quantity: "2.5" }).success).toBe(false);
+  });
+
+  test("reports unsupported keywords", () => {
+    expect(() =>
+      fromJSONSchema({
+        type: "object",
+        properties: {
+          id: { type: ["string", "null"] },
+          email: { type: "string", format: "email" },
+          items: { type: "array", items: { anyOf: [] }, uniqueItems: true },
+        },
+        additionalProperties: false,
+      }),
+    ).toThrow(
+      "Unsupported JSON Schema keywords: #/additionalProperties, " +
+        "#/properties/id/type, #/properties/email/format (email), " +
+        "#/properties/items/uniqueItems, #/properties/items/items/anyOf",
+    );
+  });
+
+  test("root must be an object", () => {
+    expect(() => fromJSONSchema({ type: "string" })).toThrow(
+      "root must be an object schema",
+    );
+  });
+});
+
+describe("composition", () => {
+  const user = object({
+    "name:n": "string(1..50)",
+    email: "string",
+    "nickname?": "string",
+    "role=member": oneOf(["member", "admin"]),
+    address: { city: "string", "zip?": "string" },
+  });
+
+  test("extend replaces fields by name", () => {
+    const schema = extend(user, { "email?": "string", id: "number" });
+    expect(schema).toEqual({
+      "name:n": "string(1..50)",
+      "nickname?": "string",
+      "role=member": user["role=member"],
+      address: user.address,
+      "email?": "string",
+      id: "number",
+    });
+
+    const { success, data } = validator.for(schema)({});
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        name: string;
+        role: "member" | "admin";
+        address: { city: string; zip: string | undefined };
+        id: number;
+        email: string | undefined;
+        nickname: string | undefined;
+      }>();
+    }
+  });
+
+  test("merge", () => {
+    const schema = merge(
+      { name: "string", age: "number" },
+      { "age?": "number" },
+      { city: "string" },
+    );
+    expect(schema).toEqual({
+      name: "string",
+      "age?": "number",
+      city: "string",
+    });
+
+    const { success, data } = validator.for(schema)({});
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        name: string;
+        city: string;
+        age: number | undefined;
+      }>();
+    }
+  });
+
+  test("pick and omit", () => {
+    const login = pick(user, ["name", "role"]);
+    expect(login).toEqual({
+      "name:n": "string(1..50)",
+      "role=member": user["role=member"],
+    });
+    expect(Object.keys(omit(user, ["name", "role", "address"]))).toEqual([
+      "email",
+      "nickname?",
+    ]);
+
+    validator.for(login)(
+      {},
+      {
+        errorMessage: (key) => {
+          const schemaKey: "" | "name" | "role" = key;
+          return schemaKey;
+        },
+      },
+    );
+  });
+
+  test("partial and required", () => {
+    const patch = partial(user);
+    expect(Object.keys(patch)).toEqual([
+      "name:n?",
+      "email?",
+      "nickname?",
+      "role?=member",
+      "address?",
+    ]);
+    expect(Object.keys(required(patch))).toEqual([
+      "name:n",
+      "email",
+      "nickname",
+      "role=member",
+      "address",
+    ]);
+
+    const validate = validator.for(patch);
+    expect(validate({ email: "a@b.c" })).toEqual({
+      success: true,
+      data: {
+        name: undefined,
+        email: "a@b.c",
+        nickname: undefined,
+        role: "member",
+        address: undefined,
+      },
+      errors: {},
+      issues: [],
+    });
+
+    const { success, data } = validate({});
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        role: "member" | "admin";
+        name: string | undefined;
+        email: string | undefined;
+        nickname: string | undefined;
+        address: { city: string; zip: string | undefined } | undefined;
+      }>();
+    }
+  });
+
+  test("deepPartial", () => {
+    const schema = deepPartial(
+      object({
+        address: { city: "string" },
+        items: [{ sku: "string", qty: "number" }],
+        contact: union("type", { email: { email: "string" } }),
+        notes: record({ text: "string" }),
+        meta: field({ type: { id: "number" }, unknownKeys: "error" }),
+      }),
+    );
+
+    const validate = validator.for(schema);
+    expect(
+      validate({
+        address: {},
+        items: [{ sku: "A1" }],
+        contact: { type: "email" },
+        notes: { a: {} },
+        meta: {},
+      }),
+    ).toEqual({
+      success: true,
+      data: {
+        address: { city: undefined },
+        items: [{ sku: "A1", qty: undefined }],
+        contact: { type: "email", email: undefined },
+        notes: { a: { text: undefined } },
+        meta: { id: undefined },
+      },
+      errors: {},
+      issues: [],
+    });
+    expect(validate({ meta: { extra: 1 } }).success).toBe(false);
+
+    const { success, data } = validate({});
+    if (success) {
+      expectTypeOf(data.items).toEqualTypeOf<
+        { sku: string | undefined; qty: number | undefined }[] | undefined
+      >();
+      expectTypeOf(data.contact).toEqualTypeOf<
+        { type: "email"; email: string | undefined } | undefined
+      >();
+    }
+  });
+});
+
+describe("recursive schemas", () => {
+  type Comment = { text: string; replies: Comment[] };
+
+  const comment = object({
+    text: "string(1..)",
+    replies: [lazy<Comment>((): Schema => comment)],
+  });
+
+  const thread = (depth: number): unknown =>
+    depth === 0
+      ? { text: "end", replies: [] }
+      : { text: "re", replies: [thread(depth - 1)] };
+
+  test("validates every level", () => {
+    const validate = validator.for(comment, (data, issues) => {
+      if (data.replies[0]?.replies[0]?.text === "spam") {
+        issues.replies[0].replies[0].text.push("No spam");
+      }
+    });
+
+    const result = validate({
+      text: "first",
+      replies: [{ text: "second", replies: [{ text: "spam", replies: [] }] }],
+    });
+    expect(result.errors).toEqual({
+      "replies[0].replies[0].text": { errors: ["No spam"], value: "spam" },
+    });
+
+    const f = form.helper(validate({ text: "a", replies: [{ text: "" }] }));
+    expect(f.replies[0].text.errors).toEqual([
+      "Length 0 is less than minimum 1",
+    ]);
+    expect(f.replies[0].replies.path).toBe("replies[0].replies");
+    expectTypeOf(f.replies[0].replies[0].text.value).toEqualTypeOf<string>();
+
+    const { success, data } = validate(thread(5));
+    expect(success).toBe(true);
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{ text: string; replies: Comment[] }>();
+    }
+  });
+
+  test("maxDepth", () => {
+    const validate = validator.for(comment);
+    expect(validate(thread(20)).success).toBe(true);
+    expect(validate(thread(21)).errors).toEqual({
+      [`replies${"[0].replies".repeat(20)}[0]`]: {
+        errors: ["Nesting depth is greater than limit 20"],
+        value: "",
+      },
+    });
+    expect(validate(thread(3), { maxDepth: 2 }).success).toBe(false);
+    validate(
+      {},
+      {
+        errorMessage: (key) => {
+          const schemaKey: "" | "text" | "replies" | `replies.${string}` = key;
+          return schemaKey;
+        },
+      },
+    );
+  });
+});
+
+describe("transforms", () => {
+  const schema = object({
+    email: field({ type: "string", transform: ["trim", "toLowerCase"] }),
+    "name?": field({
+      type: "string",
+      min: 2,
+      transform: ["collapseWhitespace", "trim"],
+    }),
+    total: field({ type: "number", transform: "round" }),
+    tags: field({
+      type: "string",
+      transform: ["trim", (value: string) => value.split(/\s*,\s*/)],
+    }),
+    codes: field({
+      type: ["string"],
+      transform: (codes: string[]) => new Set(codes),
+    }),
+  });
+
+  const validate = validator.for(schema);
+
+  test("transforms after coercion", () => {
+    const input = new FormData();
+    input.append("email", "  Jane@Example.COM ");
+    input.append("name", "  Jane   Doe ");
+    input.append("total", "9.6");
+    input.append("tags", " a, b ,c ");
+    input.append("codes", "x");
+    input.append("codes", "x");
+
+    const { success, data } = validate(input);
+    expect(success).toBe(true);
+    expect(data).toEqual({
+      email: "jane@example.com",
+      name: "Jane Doe",
+      total: 10,
+      tags: ["a", "b", "c"],
+      codes: new Set(["x"]),
+    });
+    if (success) {
+      expectTypeOf(data).toEqualTypeOf<{
+        email: string;
+        total: number;
+        tags: string[];
+        codes: Set<string>;
+        name: string | undefined;
+      }>();
+    }
+  });
+
+  test("constraints apply to the transformed value, errors keep the input", () => {
+    const result = validate({
+      email: "a",
+      name: "   a  ",
+      total: 1,
+      tags: "",
+      codes: [1],
+    });
+    expect(result.errors).toEqual({
+      name: { errors: ["Length 1 is less than minimum 2"], value: "   a  " },
+    });
+
+    const f = form.helper(result);
+    expect(f.name.value).toBe("   a  ");
+    expect(f.email.value).toBe("a");
+  });
+
+  test("callback gets transformed data", () => {
+    const validate = validator.for(schema, (data, issues) => {
+      if (data.email.endsWith("@spam.com")) {
+        issues.email.push("Not allowed");
+      }
+    });
+    const { errors } = validate({
+      email: " BOT@SPAM.COM",
+      total: 1,
+      tags: "a",
+      codes: [],
+    });
+    expect(errors).toEqual({
+      email: { errors: ["Not allowed"], value: " BOT@SPAM.COM" },
+    });
+  });
+
+  test("invalid transform", () => {
+    expect(() =>
+      validator.for({
+        name: field({ type: "string", transform: "trimm" as any }),
+      }),
+    ).toThrow("Invalid transform 'trimm' for 'name'");
+  });
+
+  test("constraints with a transform function", () => {
+    const length = (value: string) => value.length;
+    for (const type of [
+      field({ type: "string", transform: [length], min: 3 }),
+      field({ type: "string(3..)", transform: length }),
+      field({ type: "number", transform: ["round", Math.abs], max: 10 }),
+    ]) {
+      expect(() => validator.for({ name: type })).toThrow(
+        "Constraints of 'name' can't be used with a transform function",
+      );
+    }
+    const tags = validator.for({
+      tags: field({ type: ["string"], max: 2, transform: (tags) => tags }),
+    });
+    expect(tags({ tags: ["a", "b", "c"] }).errors.tags.errors).toEqual([
+      "Length 3 is greater than maximum 2",
+    ]);
+  });
+});
+
+describe("standard schema", () => {
+  const schema = object({
+    "name:n": "string(2..)",
+    "pageSize=20": "number",
+    items: [{ sku: "string", "qty?": "number" }],
+    quantities: record("number"),
+    email: field({
+      type: "string",
+      transform: (value: string) => value.length,
+    }),
+  });
+
+  test("validate returns value or issues", () => {
+    const validate = validator.for(schema);
+    const standard = validate["~standard"];
+
+    expect(standard.version).toBe(1);
+    expect(standard.vendor).toBe("pukka");
+    expect(
+      standard.validate({ n: "Jo", items: [], quantities: {}, email: "a" }),
+    ).toEqual({
+      value: { name: "Jo", pageSize: 20, items: [], quantities: {}, email: 1 },
+    });
+    expect(
+      standard.validate({
+        n: "J",
+        items: [{ qty: "x" }],
+        quantities: { 12: "y" },
+        email: "a",
+      }),
+    ).toEqual({
+      issues: [
+        { message: "Length 1 is less than minimum 2", path: ["name"] },
+        { message: "Sku is required", path: ["items", 0, "sku"] },
+        {
+          message: "Expected 'number', received 'x'",
+          path: ["items", 0, "qty"],
+        },
+        {
+          message: "Expected 'number', received 'y'",
+          path: ["quantities", "12"],
+        },
+      ],
+    });
+    expect(standard.validate("x")).toEqual({
+      issues: [{ message: "Expected 'object', received 'String'" }],
+    });
+  });
+
+  test("async validate", async () => {
+    const validate = validator.forAsync(schema, async (data, issues) => {
+      if (data.name === "Taken") issues.name.push("Name is taken");
+    });
+    await expect(
+      validate["~standard"].validate({
+        n: "Taken",
+        items: [],
+        quantities: {},
+        email: "",
+      }),
+    ).resolves.toEqual({
+      issues: [{ message: "Name is taken", path: ["name"] }],
+    });
+  });
+
+  test("input and output types", () => {
+    const validate = validator.for(schema);
+    type Types = NonNullable<(typeof validate)["~standard"]["types"]>;
+    expectTypeOf<Types["input"]>().toEqualTypeOf<{
+      n: string;
+      items: { sku: string; qty?: number }[];
+      quantities: Record<string, number>;
+      email: string;
+      pageSize?: number;
+    }>();
+    expectTypeOf<Types["output"]>().toEqualTypeOf<{
+      name: string;
+      pageSize: number;
+      items: { sku: string; qty: number | undefined }[];
+      quantities: Record<string, number>;
+      email: number;
+    }>();
+  });
+
+  test("validators with context are not standard", () => {
+    const validate = validator.for(
+      schema,
+      usingContext<{ x: number }>(),
+      () => {},
+    );
+    expect("~standard" in validate).toBe(false);
+  });
+});
+
+describe("form helper attrs", () => {
+  const schema = object({
+    "username:un": "string(3..20)",
+    "age?": "number(0..120)",
+    "newsletter?": "boolean",
+    avatar: "file",
+    zip: field({ type: "string", pattern: /^\d{5}$/ }),
+    "code?": field({ type: "string", pattern: /\d+/ }),
+    "pageSize=20": "number",
+    tags: field({ type: ["string"], max: 5 }),
+    address: { "street:st": "string" },
+    items: [{ sku: "string" }],
+    payment: union("method", { card: { cvv: "string(3..4)" } }),
+  });
+
+  const validate = validator.for(schema);
+
+  test("attrs from the schema", () => {
+    const result = validate({
+      un: "jo",
+      age: "30",
+      newsletter: "true",
+      zip: "12345",
+      tags: ["a"],
+      address: { st: "Main" },
+      items: [{ sku: "A1" }],
+      payment: { method: "card", cvv: "123" },
+    });
+    const f = form.helper(result, schema);
+
+    expect(f.username.attrs).toEqual({
+      name: "un",
+      value: "jo",
+      required: true,
+      minLength: 3,
+      maxLength: 20,
+      "aria-invalid": true,
+      "aria-describedby": "un-error",
+    });
+    expect(f.age.attrs).toEqual({
+      name: "age",
+      value: "30",
+      type: "number",
+      min: 0,
+      max: 120,
+    });
+    expect(f.newsletter.attrs).toEqual({
+      name: "newsletter",
+      value: "true",
+      checked: true,
+      type: "checkbox",
+    });
+    expect(f.avatar.attrs).toEqual({
+      name: "avatar",
+      type: "file",
+      required: true,
+      "aria-invalid": true,
+      "aria-describedby": "avatar-error",
+    });
+    expect(f.zip.attrs).toEqual({
+      name: "zip",
+      value: "12345",
+      required: true,
+      pattern: "^\\d{5}$",
+    });
+    expect(f.code.attrs).toEqual({ name: "code", value: "" });
+    expect(f.pageSize.attrs).toEqual({
+      name: "pageSize",
+      value: "20",
+      type: "number",
+    });
+    expect(f.tags.attrs).not.toHaveProperty("multiple");
+    expect(f.address.street.attrs).toEqual({
+      name: "address.st",
+      value: "Main",
+      required: true,
+    });
+    expect(f.items[0].sku.attrs.name).toBe("items[0].sku");
+    expect(f.payment.cvv.attrs).toMatchObject({ minLength: 3, maxLength: 4 });
+  });
+
+  test("attrs without the schema", () => {
+    const f = form.helper(validate({ un: "jo" }));
+    expect(f.username.attrs).toEqual({
+      name: "username",
+      value: "jo",
+      "aria-invalid": true,
+      "aria-describedby": "username-error",
+    });
+  });
+
+  test("fields named attrs", () => {
+    const schema = object({ "meta?": { attrs: "string" } });
+    const result = validator.for(schema)({ meta: {} });
+    for (const f of [form.helper(result, schema), form.helper(result)]) {
+      expect(f.meta.attrs.path).toBe("meta.attrs");
+      expect(f.meta.attrs.errors).toEqual(["Attrs is required"]);
+      expect(f.meta.attrs.attrs.name).toBe("meta.attrs");
+    }
+    expect(form.helper(result, schema).meta.attrs.attrs.required).toBe(true);
+  });
+});
+
+describe("serialize", () => {
+  const schema = object({
+    "name:n": "string",
+    active: "boolean",
+    total: "bigint",
+    dob: "date",
+    "avatar?": "file",
+    tags: ["string"],
+    scores: [oneOf([1, 2, 3])],
+    address: { "street:st": "string", "zip?": "string" },
+    items: [{ sku: "string", qty: "number" }],
+    quantities: record("number"),
+    payment: union("method", {
+      card: { cvv: "string" },
+      bank: { iban: "string" },
+    }),
+  });
+
+  const data: Infer<typeof schema> = {
+    name: "Jane",
+    active: false,
+    total: 12345678901234567890n,
+    dob: new Date("2000-02-29"),
+    avatar: new File(["x"], "me.png"),
+    tags: ["a"],
+    scores: [1, 3],
+    address: { street: "Main", zip: undefined },
+    items: [
+      { sku: "A1", qty: 2 },
+      { sku: "B2", qty: 1 },
+    ],
+    quantities: { X1: 4 },
+    payment: { method: "card", cvv: "123" },
+  };
+
+  const validate = validator.for(schema);
+
+  test("toFormData round trips", () => {
+    const formData = toFormData(schema, data);
+    expect(Array.from(formData.keys())).toEqual([
+      "n",
+      "active",
+      "total",
+      "dob",
+      "avatar",
+      "tags",
+      "scores",
+      "scores",
+      "address.st",
+      "items[0].sku",
+      "items[0].qty",
+      "items[1].sku",
+      "items[1].qty",
+      "quantities.X1",
+      "payment.method",
+      "payment.cvv",
+    ]);
+    expect(formData.get("dob")).toBe("2000-02-29");
+    expect(validate(formData)).toEqual({
+      success: true,
+      data,
+      errors: {},
+      issues: [],
+    });
+  });
+
+  test("toSearchParams with indexed arrays", () => {
+    const params = toSearchParams(schema, data, { arrays: "index" });
+    expect(params.toString()).toBe(
+      "n=Jane&active=false&total=12345678901234567890&dob=2000-02-29" +
+        "&tags%5B0%5D=a&scores%5B0%5D=1&scores%5B1%5D=3&address.st=Main" +
+        "&items%5B0%5D.sku=A1&items%5B0%5D.qty=2&items%5B1%5D.sku=B2&items%5B1%5D.qty=1" +
+        "&quantities.X1=4&payment.method=card&payment.cvv=123",
+    );
+    expect(validate(params)).toEqual({
+      success: true,
+      data: { ...data, avatar: undefined },
+      errors: {},
+      issues: [],
+    });
+  });
+
+  test("empty arrays", () => {
+    const lists = object({
+      "tags?": ["string"],
+      codes: field({ type: ["string"], default: [] }),
+      items: [{ sku: "string", "notes?": ["string"] }],
+    });
+    const empty = { tags: [], codes: [], items: [{ sku: "A1", notes: [] }] };
+    expect(validator.for(lists)(toFormData(lists, empty))).toEqual({
+      success: true,
+      data: empty,
+      errors: {},
+      issues: [],
+    });
+    expect(() => toFormData(lists, { ...empty, items: [] })).toThrow(
+      "Can't serialize the empty array 'items', it would be read as missing",
+    );
+    expect(() => toSearchParams(schema, { ...data, tags: [] })).toThrow(
+      "Can't serialize the empty array 'tags'",
+    );
+  });
+
+  test("record keys that are paths", () => {
+    const keys = { ...data, quantities: { "X-1": 1, "A 2": 2 } };
+    expect(validate(toFormData(schema, keys)).data).toEqual(keys);
+    for (const key of ["a.b", "a[0]"]) {
+      expect(() =>
+        toFormData(schema, { ...data, quantities: { [key]: 1 } }),
+      ).toThrow(
+        `Can't serialize the key '${key}' of 'quantities', it would be read as a path`,
+      );
+    }
+  });
+});
+
+describe("structured issues", () => {
+  const schema = object({
+    name: "string(2..)",
+    age: "number",
+    tags: field({ type: ["string"], max: 1 }),
+    status: oneOf(["draft", "published"]),
+  });
+
+  test("built-in errors have code and params", () => {
+    const validate = validator.for(schema);
+    const { errors, issues } = validate({
+      name: "J",
+      age: "x",
+      tags: ["a", "b"],
+    });
+    expect(Object.keys(errors)).toEqual(["name", "age", "tags", "status"]);
+    expect(issues).toEqual([
+      {
+        path: "name",
+        code: "too_small",
+        params: { type: "string", min: 2, received: 1 },
+        message: "Length 1 is less than minimum 2",
+      },
+      {
+        path: "age",
+        code: "type",
+        params: { expected: "number", received: "x" },
+        message: "Expected 'number', received 'x'",
+      },
+      {
+        path: "tags",
+        code: "too_big",
+        params: { type: "array", max: 1, received: 2 },
+        message: "Length 2 is greater than maximum 1",
+      },
+      {
+        path: "status",
+        code: "required",
+        params: { received: "undefined" },
+        message: "Status is required",
+      },
+    ]);
+
+    expect(validate(null).issues).toEqual([
+      {
+        path: "",
+        code: "type",
+        params: { expected: "object", received: "null" },
+        message: "Expected 'object', received 'null'",
+      },
+    ]);
+  });
+
+  test("params are JSON", () => {
+    const validate = validator.for(
+      {
+        code: field({ type: "string", pattern: /^[a-z]+$/i }),
+        total: "bigint(..10)",
+      },
+      () => {
+        throw new TypeError("Lookup failed");
+      },
+    );
+    const { issues } = validate({ code: "a1", total: "11" });
+    expect(JSON.parse(JSON.stringify(issues))).toEqual([
+      {
+        path: "code",
+        code: "pattern",
+        params: { pattern: "^[a-z]+$", flags: "i", received: "a1" },
+        message: "Expected to match '^[a-z]+$', received 'a1'",
+      },
+      {
+        path: "total",
+        code: "too_big",
+        params: { type: "bigint", max: 10, received: "11" },
+        message: "Value 11 is greater than maximum 10",
+      },
+      {
+        path: "",
+        code: "exception",
+        params: { name: "TypeError", message: "Lookup failed" },
+        message: "Exception: Lookup failed",
+      },
+    ]);
+  });
+
+  test("callback pushes", () => {
+    const validate = validator.for(schema, (data, issues) => {
+      issues.name.push("Name is reserved");
+      issues.age.push({
+        code: "too_young",
+        message: "Too young",
+        params: { min: 18 },
+      });
+    });
+    const { errors, issues } = validate({
+      name: "Jo",
+      age: 12,
+      tags: [],
+      status: "draft",
+    });
+    expect(errors).toEqual({
+      name: { errors: ["Name is reserved"], value: "Jo" },
+      age: { errors: ["Too young"], value: "12" },
+    });
+    expect(issues).toEqual([
+      { path: "name", code: "custom", params: {}, message: "Name is reserved" },
+      {
+        path: "age",
+        code: "too_young",
+        params: { min: 18 },
+        message: "Too young",
+      },
+    ]);
+  });
+
+  test("async callback pushes", async () => {
+    const validate = validator.forAsync(schema, async (data, issues) => {
+      issues.name.push({ code: "taken", message: "Name is taken" });
+    });
+    const { issues } = await validate({ name: "Jo", age: 1, tags: [] });
+    expect(issues.map(({ path, code }) => `${path}:${code}`)).toEqual([
+      "status:required",
+      "name:taken",
+    ]);
+  });
+});
+
+describe("locales", () => {
+  const schema = object({
+    firstName: "string",
+    age: "number(18..)",
+    code: "string(..3)",
+    address: { zipCode: "string" },
+    status: oneOf(["draft", "published"]),
+  });
+  const validate = validator.for(schema);
+  const input = { age: 12, code: "ABCD", address: {}, status: "x" };
+
+  const messages = (options: Parameters<typeof validate>[1]) =>
+    validate(input, options).issues.map(({ message }) => message);
+
+  test("bundled catalogs", () => {
+    expect(messages({})).toEqual([
+      "First Name is required",
+      "Value 12 is less than minimum 18",
+      "Length 4 is greater than maximum 3",
+      "Zip Code is required",
+      "Expected one of 'draft', 'published', received 'x'",
+    ]);
+    expect(messages({ locale: "fr" })).toEqual([
+      "First name est obligatoire",
+      "La valeur 12 est inférieure au minimum 18",
+      "La longueur 4 est supérieure au maximum 3",
+      "Zip code est obligatoire",
+      "Une valeur parmi 'draft', 'published' attendue, 'x' reçu",
+    ]);
+    expect(messages({ locale: "de" })[1]).toBe(
+      "Wert 12 ist kleiner als das Minimum 18",
+    );
+    expect(messages({ locale: "es" })[3]).toBe("Zip code es obligatorio");
+  });
+
+  test("locales that aren't bundled fall back to en", () => {
+    const result = validate(input, { locale: "it" as any });
+    expect(result.success).toBe(false);
+    expect(result.issues.map(({ message }) => message)).toEqual(messages({}));
+  });
+
+  test("labels and custom catalogs", () => {
+    expect(
+      messages({
+        locale: "de",
+        labels: { firstName: "Vorname", "address.zipCode": "Postleitzahl" },
+      }),
+    ).toContain("Postleitzahl ist erforderlich");
+
+    const upper = {
+      label: (key: string) => key.toUpperCase(),
+      messages: { ...locales.en.messages, required: "{label} missing" },
+    };
+    expect(messages({ locale: upper })[0]).toBe("FIRSTNAME missing");
+    expect(
+      messages({
+        locale: upper,
+        errorMessage: (key, error) =>
+          key === "firstName" && error.code === "required" ? "!" : undefined,
+      })[0],
+    ).toBe("!");
+  });
+});
+
+describe("metadata", () => {
+  const schema = object({
+    dob: field({
+      type: "date",
+      label: "Date of birth",
+      description: "As on your passport",
+    }),
+    email: field({
+      type: "string",
+      placeholder: "jane@example.com",
+      example: "jane@example.com",
+    }),
+    address: { zipCode: field({ type: "string", label: "ZIP" }) },
+  });
+  const validate = validator.for(schema);
+
+  test("doesn't change the inferred type", () => {
+    expectTypeOf<Infer<typeof schema>>().toEqualTypeOf<{
+      dob: Date;
+      email: string;
+      address: { zipCode: string };
+    }>();
+  });
+
+  test("labels in error messages", () => {
+    const { errors } = validate({ address: {} });
+    expect(errors.dob.errors).toEqual(["Date of birth is required"]);
+    expect(errors["address.zipCode"].errors).toEqual(["ZIP is required"]);
+    expect(errors.email.errors).toEqual(["Email is required"]);
+    expect(
+      validate({ address: {} }, { labels: { dob: "Birthday" } }).errors.dob
+        .errors,
+    ).toEqual(["Birthday is required"]);
+  });
+
+  test("form helper", () => {
+    const f = form.helper(validate({ address: {} }), schema);
+    expect(f.dob.label).toBe("Date of birth");
+    expect(f.dob.description).toBe("As on your passport");
+    expect(f.email.label).toBe("Email");
+    expect(f.email.placeholder).toBe("jane@example.com");
+    expect(f.email.attrs.placeholder).toBe("jane@example.com");
+    expect(f.address.zipCode.label).toBe("ZIP");
+  });
+
+  test("fields named like metadata", () => {
+    const schema = object({
+      product: { description: "string", label: "string" },
+    });
+    const result = validator.for(schema)({});
+    for (const f of [form.helper(result, schema), form.helper(result)]) {
+      expect(f.product.errors).toEqual(["Product is required"]);
+      expect(f.product.description.errors).toEqual([]);
+      expect(f.product.label.path).toBe("product.label");
+    }
+    expect(form.helper(result, schema).product.description.label).toBe(
+      "Description",
+    );
+  });
+
+  test("json schema", () => {
+    const json = toJSONSchema(schema);
+    expect(json.properties?.dob).toEqual({
+      type: "string",
+      format: "date",
+      title: "Date of birth",
+      description: "As on your passport",
+    });
+    expect(json.properties?.email).toEqual({
+      type: "string",
+      examples: ["jane@example.com"],
+    });
+    expect(fromJSONSchema(json)).toEqual({
+      dob: field({
+        type: "date",
+        label: "Date of birth",
+        description: "As on your passport",
+      }),
+      email: field({ type: "string", example: "jane@example.com" }),
+      address: { zipCode: field({ type: "string", label: "ZIP" }) },
+    });
+  });
+});
+
+describe("generateValidators", () => {
+  const tree = object({
+    name: "string",
+    children: [lazy<{ name: string }>((): Schema => tree)],
+  });
+  const schema = object({
+    "name:n": field({ type: "string", min: 2, transform: "trim" }),
+    "age?": "number(18..)",
+    "pageSize=20": "number",
+    code: field({ type: "string", pattern: /^[A-Z]+$/, label: "Code" }),
+    status: oneOf(["draft", "published"]),
+    quantities: record("number(1..)", { maxKeys: 2 }),
+    payment: union("method", {
+      card: { cvv: "string(3..4)" },
+      bank: { iban: "string" },
+    }),
+    tree: [tree],
+    "note?": field({ type: "string", requiredIf: { status: "draft" } }),
+    "photos?": field({
+      type: [field({ type: "file", maxSize: 1, accept: "image/*" })],
+      maxFiles: 1,
+    }),
+  });
+
+  /** transpiles the generated module and returns its exports */
+  const load = (code: string) => {
+    const { outputText } = ts.transpileModule(code, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2022,
+      },
+    });
+    const module = { exports: {} as Record<string, any> };
+    new Function("module", "exports", outputText)(module, module.exports);
+    return module.exports;
+  };
+
+  test("same results as validator.for", () => {
+    const { validateSchema } = load(generateValidators({ schema, tree }));
+    const inputs = [
+      {},
+      null,
+      {
+        n: " J ",
+        age: "17",
+        code: "ab",
+        status: "x",
+        quantities: { A: "0", B: 1, C: 2 },
+        payment: { method: "crypto" },
+        tree: [{ name: "a", children: [{ children: [] }] }],
+        photos: [new File(["ab"], "a.txt"), new File([], "")],
+      },
+      {
+        n: "Jane",
+        age: 30,
+        code: "AB",
+        status: "draft",
+        quantities: { A: 3 },
+        payment: { method: "card", cvv: "123" },
+        tree: [],
+      },
+    ];
+    for (const input of inputs) {
+      expect(validateSchema(input)).toStrictEqual(validator.for(schema)(input));
+    }
+    const options = { labels: { status: "State" }, unknownKeys: "error" };
+    expect(validateSchema({ extra: 1 }, options)).toStrictEqual(
+      validator.for(schema)({ extra: 1 }, options as any),
+    );
+    const empty = { photos: new File([], "") };
+    expect(validateSchema(empty, { emptyFiles: "missing" })).toStrictEqual(
+      validator.for(schema)(empty, { emptyFiles: "missing" }),
+    );
+  });
+
+  test("interfaces", () => {
+    const code = generateValidators({ schema, tree });
+    expect(code).toContain("export interface Tree {");
+    expect(code).toContain('status: "draft" | "published";');
+    expect(code).toContain("age: number | undefined;");
+  });
+
+  test("type checks in strict mode", () => {
+    const node = object({ children: [lazy((): Schema => node)] });
+    const modules: Record<string, string> = {
+      "schema.ts": generateValidators({ schema, tree }),
+      "lazy.ts": generateValidators({ lazy1: { node: lazy(() => node) } }),
+    };
+    expect(modules["lazy.ts"]).toContain("export interface Lazy2 {");
+
+    const options = {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      lib: ["lib.es2022.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+      types: [],
+      skipLibCheck: true,
+    };
+    const host = ts.createCompilerHost(options);
+    const { fileExists, readFile } = host;
+    host.fileExists = (file) => file in modules || fileExists(file);
+    host.readFile = (file) => modules[file] ?? readFile(file);
+    const program = ts.createProgram(Object.keys(modules), options, host);
+    const messages = ts
+      .getPreEmitDiagnostics(program)
+      .map(({ messageText }) =>
+        ts.flattenDiagnosticMessageText(messageText, ""),
+      );
+    expect(messages).toEqual([]);
+  });
+
+  test("names of the runtime types", () => {
+    for (const [name, type] of [
+      ["errors", "Errors"],
+      ["validatorOptions", "ValidatorOptions"],
+      ["date", "Date"],
+      ["record", "Record"],
+    ]) {
+      expect(() => generateValidators({ [name]: { a: "string" } })).toThrow(
+        `Type '${type}' of '${name}' is already declared`,
+      );
+    }
+    expect(() =>
+      generateValidators({ user: { a: "string" }, User: { b: "string" } }),
+    ).toThrow("Type 'User' of 'User' is already declared");
+  });
+
+  test("functions can't be generated", () => {
+    expect(() =>
+      generateValidators({
+        schema: { name: field({ type: "string", transform: String }) },
+      }),
+    ).toThrow();
+    expect(() => generateValidators({ config: { port: 3000 } as any })).toThrow(
+      "Invalid type '3000' for 'port'",
+    );
+  });
+});
+
+describe("generate", () => {
+  const tree = object({
+    name: "string(1..)",
+    children: [lazy<{ name: string }>((): Schema => tree)],
+  });
+  const schema = object({
+    "name:n": field({ type: "string", min: 2, max: 5, transform: "trim" }),
+    "age?": "number(18..120)",
+    "score=0.15": "number(0.1..0.2)",
+    id: "bigint(1..)",
+    active: "boolean",
+    code: field({
+      type: "string",
+      length: 3,
+      pattern: /^[A-Z]+$/,
+      example: "ABC",
+    }),
+    dob: "date",
+    createdAt: "datetime",
+    avatar: "file",
+    status: oneOf(["draft", "published"]),
+    tags: field({ type: ["string(..3)"], min: 1, max: 2 }),
+    quantities: record("number(1..)", { maxKeys: 2 }),
+    address: field({ type: { street: "string" }, unknownKeys: "error" }),
+    payment: union("method", {
+      card: { cvv: "string(3..4)" },
+      bank: { iban: "string" },
+    }),
+    tree: [tree],
+    "company?": field({ type: "string", requiredIf: { status: "published" } }),
+    "email?": field({ type: "string", atLeastOneOf: ["phone"] }),
+    "phone?": "string",
+    "password?": "string",
+    "confirmation?": field({ type: "string", equalsField: "password" }),
+  });
+  const validate = validator.for(schema);
+
+  test("valid data", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const data = generate(schema, { seed });
+      expect(validate(data).errors).toEqual({});
+    }
+    expectTypeOf(generate(schema)).toEqualTypeOf<InferInput<typeof schema>>();
+  });
+
+  test("same seed, same data", () => {
+    expect(generate(schema, { seed: 7 })).toEqual(
+      generate(schema, { seed: 7 }),
+    );
+    expect(generate(schema, { seed: 7 })).not.toEqual(
+      generate(schema, { seed: 8 }),
+    );
+  });
+
+  test("options", () => {
+    const data = generate(schema, { optional: 0, arrayLimit: 1, maxDepth: 0 });
+    expect(data.age).toBeUndefined();
+    expect(data.score).toBeUndefined();
+    expect(data.tags).toHaveLength(1);
+    expect(generate(schema, { optional: 1 })).toMatchObject({
+      age: expect.any(Number),
+      score: expect.any(Number),
+    });
+    for (const item of generate(schema, { maxDepth: 0 }).tree) {
+      expect(item.children).toEqual([]);
+    }
+  });
+
+  test("patterns need an example", () => {
+    expect(() =>
+      generate({
+        code: "string",
+        zip: field({ type: "string", pattern: /^\d{5}$/ }),
+      }),
+    ).toThrow(
+      "Can't generate a value matching /^\\d{5}$/ for 'zip', add an example",
+    );
+  });
+
+  test("invalid samples", () => {
+    const samples = generate.invalid(schema, { seed: 3 });
+    for (const { path, code, data } of samples) {
+      const { issues } = validate(data);
+      expect(issues).toContainEqual(expect.objectContaining({ path, code }));
+    }
+    const codes = samples.map(({ path, code }) => `${path}:${code}`);
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        "name:required",
+        "name:too_small",
+        "name:too_big",
+        "age:type",
+        "age:too_small",
+        "age:too_big",
+        "id:too_small",
+        "code:pattern",
+        "status:enum",
+        "tags:too_small",
+        "tags:too_big",
+        "tags[0]:too_big",
+        "address:type",
+        "payment.method:enum",
+      ]),
+    );
+    expect(codes).not.toContain("score:required");
+  });
+});
+
+describe("partial validation", () => {
+  const schema = object({
+    name: "string(1..)",
+    "age?": "number",
+    "pageSize=20": "number",
+    startDate: "date",
+    endDate: "date",
+    address: { street: "string", city: "string" },
+    payment: union("method", {
+      card: { cvv: "string(3..4)" },
+      bank: { iban: "string" },
+    }),
+  });
+  const validate = validator.partial(schema, (data, issues) => {
+    // only compared when both were sent
+    if (data.startDate && data.endDate && data.endDate < data.startDate) {
+      issues.endDate.push("End date must be after start date");
+    }
+  });
+
+  test("only validates fields that were sent", () => {
+    expect(validate({})).toStrictEqual({
+      success: true,
+      data: {},
+      errors: {},
+      issues: [],
+    });
+    const result = validate({ age: "30", address: { city: "Paris" } });
+    expect(result.success).toBe(true);
+    expect(result.data).toStrictEqual({ age: 30, address: { city: "Paris" } });
+  });
+
+  test("reports fields that were sent", () => {
+    const { errors } = validate({ name: "", age: "x", pageSize: null });
+    expect(errors.name.errors).toEqual(["Length 0 is less than minimum 1"]);
+    expect(errors.age.errors).toEqual(["Expected 'number', received 'x'"]);
+    expect(errors.pageSize).toBeUndefined();
+    expect(validate({ pageSize: null }).data).toStrictEqual({ pageSize: 20 });
+    expect(validate({ name: null }).errors.name.errors).toEqual([
+      "Name is required",
+    ]);
+  });
+
+  test("unions need their discriminator", () => {
+    const { errors } = validate({ payment: { cvv: "123" } });
+    expect(errors["payment.method"].errors).toEqual(["Method is required"]);
+    expect(validate({ payment: { method: "card" } }).success).toBe(true);
+  });
+
+  test("callback gets the fields that were sent", () => {
+    expect(validate({ endDate: "2024-01-01" }).success).toBe(true);
+    const { errors } = validate({
+      startDate: "2024-02-01",
+      endDate: "2024-01-01",
+    });
+    expect(errors.endDate.errors).toEqual([
+      "End date must be after start date",
+    ]);
+  });
+
+  test("form data", () => {
+    const formData = new FormData();
+    formData.append("address.street", "Main");
+    expect(validate(formData).data).toStrictEqual({
+      address: { street: "Main" },
+    });
+  });
+
+  test("partial data type", () => {
+    const result = validate({});
+    if (result.success) {
+      expectTypeOf(result.data.name).toEqualTypeOf<string | undefined>();
+      expectTypeOf(result.data.address).toEqualTypeOf<
+        { street: string | undefined; city: string | undefined } | undefined
+      >();
+    }
+    expectTypeOf(validate["~standard"].types?.output).toEqualTypeOf<
+      typeof result.data | undefined
+    >();
+  });
+});
+
+describe("rules between fields", () => {
+  const schema = object({
+    accountType: oneOf(["personal", "business"]),
+    "companyName?": field({
+      type: "string",
+      requiredIf: { accountType: "business" },
+    }),
+    "vatNumber?": field({
+      type: "string",
+      forbiddenIf: { accountType: "personal" },
+    }),
+    password: "string",
+    passwordConfirmation: field({
+      type: "string",
+      equalsField: "password",
+      label: "Confirmation",
+    }),
+    "email?": field({ type: "string", atLeastOneOf: ["phone"] }),
+    "phone?": "string",
+    address: {
+      country: "string",
+      "state?": field({
+        type: "string",
+        requiredIf: { country: ["US", "CA"] },
+      }),
+    },
+  });
+  const validate = validator.for(schema);
+  const valid = {
+    accountType: "business",
+    companyName: "Acme",
+    password: "secret",
+    passwordConfirmation: "secret",
+    phone: "555",
+    address: { country: "FR" },
+  };
+
+  test("should pass when the rules hold", () => {
+    expect(validate(valid).success).toBe(true);
+    expect(
+      validate({
+        ...valid,
+        accountType: "personal",
+        companyName: undefined,
+        address: { country: "US", state: "CA" },
+      }).success,
+    ).toBe(true);
+  });
+
+  test("should report rules at the dependent field", () => {
+    const { errors, issues } = validate({
+      accountType: "business",
+      vatNumber: "FR123",
+      password: "secret",
+      passwordConfirmation: "secrets",
+      address: { country: "US" },
+    });
+    expect(errors.companyName.errors).toEqual([
+      "Company Name is required when Account Type is business",
+    ]);
+    expect(errors.vatNumber).toBeUndefined();
+    expect(errors.passwordConfirmation.errors).toEqual([
+      "Confirmation must match Password",
+    ]);
+    expect(errors.email.errors).toEqual([
+      "At least one of Email, Phone is required",
+    ]);
+    expect(errors["address.state"].errors).toEqual([
+      "State is required when Country is US",
+    ]);
+    expect(issues).toContainEqual({
+      path: "companyName",
+      code: "required_if",
+      params: { field: "accountType", value: "business" },
+      message: "Company Name is required when Account Type is business",
+    });
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        path: "email",
+        code: "at_least_one_of",
+        params: { fields: ["email", "phone"] },
+      }),
+    );
+  });
+
+  test("should check coerced values", () => {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries({
+      accountType: "personal",
+      vatNumber: "FR123",
+      password: "secret",
+      passwordConfirmation: "secret",
+      email: "jane@example.com",
+      "address.country": "FR",
+    })) {
+      formData.append(key, value);
+    }
+    expect(validate(formData).errors.vatNumber.errors).toEqual([
+      "Vat Number is not allowed when Account Type is personal",
+    ]);
+    const dates = validator.for({
+      start: "date",
+      "end?": field({ type: "date", equalsField: "start" }),
+    });
+    expect(
+      dates({ start: "2024-01-01", end: "2024-01-01T00:00:00Z" }).success,
+    ).toBe(true);
+  });
+
+  test("should leave fields with errors alone", () => {
+    const numbers = validator.for({
+      min: "number",
+      "max?": field({ type: "number", requiredIf: { min: 1 } }),
+    });
+    expect(numbers({ min: 1, max: "x" }).errors.max.errors).toEqual([
+      "Expected 'number', received 'x'",
+    ]);
+  });
+
+  test("should translate labels of other fields", () => {
+    const { errors } = validate(
+      { ...valid, companyName: undefined },
+      { locale: "fr", labels: { accountType: "Type de compte" } },
+    );
+    expect(errors.companyName.errors).toEqual([
+      "Company name est obligatoire lorsque Type de compte vaut business",
+    ]);
+  });
+
+  test("should only check fields that were sent in partial validation", () => {
+    const patch = validator.partial(schema);
+    expect(patch({ accountType: "business" }).success).toBe(true);
+    expect(patch({ passwordConfirmation: "x" }).errors).toHaveProperty(
+      "passwordConfirmation",
+    );
+  });
+
+  test("should throw for fields that are not in the object", () => {
+    expect(() =>
+      validator.for({ a: field({ type: "string", requiredIf: { b: "x" } }) }),
+    ).toThrow("Invalid field 'b' in requiredIf of 'a'");
+    for (const rule of ["requiredIf", "forbiddenIf"]) {
+      expect(() =>
+        validator.for({
+          a: field({ type: "string", [rule]: {} }),
+          b: "string",
+        }),
+      ).toThrow(`Empty condition in ${rule} of 'a'`);
+    }
+  });
+
+  test("json schema", () => {
+    const json = toJSONSchema({
+      accountType: oneOf(["personal", "business"]),
+      "companyName:company?": field({
+        type: "string",
+        requiredIf: { accountType: "business" },
+      }),
+      "vatNumber?": field({
+        type: "string",
+        forbiddenIf: { accountType: ["personal"] },
+      }),
+      "email?": field({ type: "string", atLeastOneOf: ["phone"] }),
+      "phone?": "string",
+    });
+    const conditional = (when: JSONSchema, then: JSONSchema) => ({
+      if: when,
+      then,
+    });
+    expect(json.allOf).toEqual([
+      conditional(
+        {
+          properties: { accountType: { const: "business" } },
+          required: ["accountType"],
+        },
+        { required: ["company"] },
+      ),
+      conditional(
+        {
+          properties: { accountType: { enum: ["personal"] } },
+          required: ["accountType"],
+        },
+        { not: { required: ["vatNumber"] } },
+      ),
+      { anyOf: [{ required: ["email"] }, { required: ["phone"] }] },
+    ]);
+  });
+});
+
+describe("file constraints", () => {
+  const kb = (size: number, name = "a.png", type = "image/png") =>
+    new File([new Uint8Array(size * 1024)], name, { type });
+  const schema = object({
+    avatar: field({ type: "file", maxSize: 1024, accept: "image/*" }),
+    "resume?": field({ type: "file", minSize: 1, accept: [".pdf", ".docx"] }),
+    "photos?": field({
+      type: [field({ type: "file", accept: "image/png, image/jpeg" })],
+      maxFiles: 2,
+    }),
+  });
+  const validate = validator.for(schema);
+
+  test("should pass files that match", () => {
+    const result = validate({
+      avatar: kb(1),
+      resume: new File(["x"], "CV.PDF"),
+      photos: [kb(0.5), kb(0.5, "b.jpg", "image/jpeg")],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test("should check size", () => {
+    const { errors, issues } = validate({
+      avatar: kb(2),
+      resume: new File([], "cv.pdf"),
+    });
+    expect(errors.avatar.errors).toEqual([
+      "File size 2 KB is greater than maximum 1 KB",
+    ]);
+    expect(errors.resume.errors).toEqual([
+      "File size 0 B is less than minimum 1 B",
+    ]);
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        path: "avatar",
+        code: "file_too_big",
+        params: { max: 1024, received: 2048 },
+      }),
+    );
+  });
+
+  test("should check type by MIME type and extension", () => {
+    const { errors } = validate({
+      avatar: kb(1, "a.pdf", "application/pdf"),
+      resume: new File(["x"], "cv.txt"),
+      photos: [kb(1, "a.gif", "image/gif")],
+    });
+    expect(errors.avatar.errors).toEqual([
+      "File type 'application/pdf' is not accepted, expected image/*",
+    ]);
+    expect(errors.resume.errors).toEqual([
+      "File type 'cv.txt' is not accepted, expected .pdf, .docx",
+    ]);
+    expect(errors["photos[0]"].errors).toEqual([
+      "File type 'image/gif' is not accepted, expected image/png, image/jpeg",
+    ]);
+  });
+
+  test("should check the number of files", () => {
+    const { errors, issues } = validate({
+      avatar: kb(1),
+      photos: [kb(1), kb(1), kb(1)],
+    });
+    expect(errors.photos.errors).toEqual([
+      "Expected at most 2 files, received 3",
+    ]);
+    expect(issues).toContainEqual(
+      expect.objectContaining({ path: "photos", code: "too_many_files" }),
+    );
+  });
+
+  test("should treat empty files as missing", () => {
+    // what a form submits for file inputs with nothing selected
+    const empty = new File([], "");
+    const formData = new FormData();
+    formData.append("avatar", empty);
+    formData.append("resume", empty);
+    formData.append("photos", empty);
+    expect(validate(formData).errors.resume.errors).toEqual([
+      "File size 0 B is less than minimum 1 B",
+      "File type '' is not accepted, expected .pdf, .docx",
+    ]);
+    const { errors } = validate(formData, { emptyFiles: "missing" });
+    expect(Object.keys(errors)).toEqual(["avatar"]);
+    expect(errors.avatar.errors).toEqual(["Avatar is required"]);
+  });
+
+  test("form helper", () => {
+    const f = form.helper(validate({}), schema);
+    expect(f.avatar.attrs.accept).toBe("image/*");
+    expect(f.resume.attrs.accept).toBe(".pdf, .docx");
+    expect(f.photos.attrs).toMatchObject({
+      multiple: true,
+      accept: "image/png, image/jpeg",
+    });
+  });
+
+  test("generate", () => {
+    const data = generate(schema, { seed: 1, optional: 1 });
+    expect(validate(data).success).toBe(true);
+    for (const { path, code, data } of generate.invalid(schema, { seed: 1 })) {
+      expect(validate(data).issues).toContainEqual(
+        expect.objectContaining({ path, code }),
+      );
+    }
+    const codes = generate
+      .invalid(schema, { seed: 1 })
+      .map(({ path, code }) => `${path}:${code}`);
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        "avatar:file_too_big",
+        "avatar:file_type",
+        "resume:file_too_small",
+        "resume:file_type",
+        "photos:too_many_files",
+      ]),
+    );
+  });
+});
@@ -1,3 +1,38 @@
-export { object, usingContext, validator } from "./validator";
-export { form } from "./helper";
-export { Infer } from "./types";
+export {
+  field,
+  lazy,
+  object,
+  oneOf,
+  record,
+  union,
+  usingContext,
+  validator,
+} from "./validator";
+export {
+  deepPartial,
+  extend,
+  merge,
+  omit,
+  partial,
+  pick,
+  required,
+} from "./compose";
+export { form } from "./form";
+export { locales } from "./messages";
+export { fromJSONSchema, toJSONSchema } from "./json-schema";
+export { SerializeOptions, toFormData, toSearchParams } from "./serialize";
+export { FakeOptions, InvalidSample, generate } from "./fake";
+export { generateValidators } from "./generate";
+export {
+  CustomError,
+  FromJSONSchema,
+  Infer,
+  InferInput,
+  InputAttrs,
+  JSONSchema,
+  Locale,
+  MessageCatalog,
+  Schema,
+  StandardSchemaV1,
+  ValidationIssue,
+} from "./types";
@@ -0,0 +1,462 @@
+import {
+  isArray,
+  isEnum,
+  isLazy,
+  isObject,
+  isRecord,
+  isUnion,
+  stringify,
+} from "./helper";
+import type {
+  Condition,
+  FieldOptions,
+  FromJSONSchema,
+  JSONSchema,
+  ParsedUnion,
+  PrimitiveType,
+  Property,
+  PropertyType,
+  RecordType,
+  Schema,
+} from "./types";
+import { field, oneOf, parseSchema, record } from "./validator";
+
+const DRAFT = "https://json-schema.org/draft/2020-12/schema";
+
+const PRIMITIVES: Record<string, JSONSchema> = {
+  string: { type: "string" },
+  number: { type: "number" },
+  integer: { type: "integer" },
+  boolean: { type: "boolean" },
+  bigint: { type: "integer", format: "int64" },
+  file: { type: "string", format: "binary" },
+  date: { type: "string", format: "date" },
+  datetime: { type: "string", format: "date-time" },
+};
+
+/**
+ * Export a schema as JSON Schema (draft 2020-12)
+ *
+ * Aliases are used as property names, fields without "?" or a default are required
+ *
+ * @example
+ * ```typescript
+ * const schema = object({
+ *   name: "string(1..50)",
+ *   "email?": "string",
+ *   "username:un": "string",
+ * })
+ *
+ * toJSONSchema(schema)
+ * // {
+ * //   $schema: "https://json-schema.org/draft/2020-12/schema",
+ * //   type: "object",
+ * //   properties: {
+ * //     name: { type: "string", minLength: 1, maxLength: 50 },
+ * //     email: { type: "string" },
+ * //     un: { type: "string" },
+ * //   },
+ * //   required: ["name", "un"],
+ * // }
+ * ```
+ */
+export function toJSONSchema(schema: Schema): JSONSchema {
+  return { $schema: DRAFT, ...objectSchema(parseSchema(schema)) };
+}
+
+function objectSchema(
+  fields: Record<string, Property>,
+  property?: Property,
+): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+  for (const field of Object.values(fields)) {
+    const name = field.alias ?? String(field.key);
+    properties[name] = propertySchema(field);
+    if (!field.optional && field.default === undefined) {
+      required.push(name);
+    }
+  }
+  const result: JSONSchema = { type: "object", properties };
+  if (required.length > 0) result.required = required;
+  const rules = rulesSchema(fields);
+  if (rules.length > 0) result.allOf = rules;
+  if (property?.unknownKeys === "error") result.additionalProperties = false;
+  if (property?.unknownKeys === "passthrough") {
+    result.additionalProperties = true;
+  }
+  return result;
+}
+
+const conditional = (when: JSONSchema, then: JSONSchema): JSONSchema => ({
+  if: when,
+  then,
+});
+
+/** requiredIf and forbiddenIf as if/then, atLeastOneOf as anyOf, equalsField can't be expressed */
+function rulesSchema(fields: Record<string, Property>): JSONSchema[] {
+  const nameOf = (key: string) => fields[key].alias ?? key;
+  const matching = (value: Condition[string]): JSONSchema =>
+    typeof value === "object" ? { enum: [...value] } : { const: value };
+  const condition = (values: Condition): JSONSchema => ({
+    properties: Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [
+        nameOf(key),
+        matching(value),
+      ]),
+    ),
+    required: Object.keys(values).map(nameOf),
+  });
+  const rules: JSONSchema[] = [];
+  for (const field of Object.values(fields)) {
+    const name = nameOf(String(field.key));
+    if (field.requiredIf != null) {
+      rules.push(
+        conditional(condition(field.requiredIf), { required: [name] }),
+      );
+    }
+    if (field.forbiddenIf != null) {
+      rules.push(
+        conditional(condition(field.forbiddenIf), {
+          not: { required: [name] },
+        }),
+      );
+    }
+    if (field.atLeastOneOf != null) {
+      rules.push({
+        anyOf: [name, ...field.atLeastOneOf.map(nameOf)].map((required) => ({
+          required: [required],
+        })),
+      });
+    }
+  }
+  return rules;
+}
+
+function unionSchema({ discriminator, branches }: ParsedUnion): JSONSchema {
+  return {
+    oneOf: Object.values(branches).map((fields) => {
+      const branch = objectSchema(fields);
+      // discriminator is always required
+      branch.required = [
+        discriminator,
+        ...(branch.required ?? []).filter((name) => name !== discriminator),
+      ];
+      return branch;
+    }),
+  };
+}
+
+function recordSchema(type: RecordType<Property>): JSONSchema {
+  const result: JSONSchema = {
+    type: "object",
+    additionalProperties: propertySchema(type.values),
+  };
+  if (type.pattern) result.propertyNames = { pattern: type.pattern.source };
+  if (type.maxKeys != null) result.maxProperties = type.maxKeys;
+  return result;
+}
+
+function propertySchema(property: Property): JSONSchema {
+  const { type, min, max, length, pattern } = property;
+
+  let result: JSONSchema;
+
+  if (isEnum(type)) {
+    result =
+      type.values.length === 1
+        ? { const: type.values[0] }
+        : { enum: [...type.values] };
+  } else if (isLazy(type)) {
+    throw new Error(`Lazy schema '${property.key}' can't be exported`);
+  } else if (isUnion<ParsedUnion>(type)) {
+    result = unionSchema(type);
+  } else if (isRecord<RecordType<Property>>(type)) {
+    result = recordSchema(type);
+  } else if (isArray(type)) {
+    result = { type: "array", items: propertySchema(type[0]) };
+    if ((length ?? min) != null) result.minItems = length ?? min;
+    if ((length ?? max) != null) result.maxItems = length ?? max;
+  } else if (typeof type === "object") {
+    result = objectSchema(type, property);
+  } else {
+    result = { ...PRIMITIVES[type] };
+    if (type === "string") {
+      if ((length ?? min) != null) result.minLength = length ?? min;
+      if ((length ?? max) != null) result.maxLength = length ?? max;
+      if (pattern) result.pattern = pattern.source;
+    } else if (type === "number" || type === "integer" || type === "bigint") {
+      if (min != null) result.minimum = min;
+      if (max != null) result.maximum = max;
+    }
+  }
+
+  if (property.default !== undefined) {
+    result.default = jsonValue(property.default);
+  }
+  if (property.label != null) result.title = property.label;
+  if (property.description != null) {
+    result.description = property.description;
+  }
+  if (property.example !== undefined) {
+    result.examples = [jsonValue(property.example)];
+  }
+
+  return result;
+}
+
+/** defaults as plain JSON values */
+function jsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") return Number(value);
+  if (value instanceof Date) return stringify(value);
+  if (isArray(value)) return value.map(jsonValue);
+  if (value != null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, jsonValue(item)]),
+    );
+  }
+  return value;
+}
+
+/** keywords that don't affect validation, title, description and examples are kept as metadata */
+const ANNOTATIONS = [
+  "$schema",
+  "$id",
+  "$comment",
+  "title",
+  "description",
+  "examples",
+];
+
+const FORMATS: Record<string, Record<string, PrimitiveType>> = {
+  string: { binary: "file", date: "date", "date-time": "datetime" },
+  integer: { int64: "bigint" },
+};
+
+const KEYWORDS: Record<string, string[]> = {
+  string: ["format", "minLength", "maxLength", "pattern"],
+  number: ["minimum", "maximum"],
+  integer: ["format", "minimum", "maximum"],
+  boolean: [],
+  array: ["items", "minItems", "maxItems"],
+  object: [
+    "properties",
+    "required",
+    "additionalProperties",
+    "propertyNames",
+    "maxProperties",
+  ],
+};
+
+/**
+ * Import a JSON Schema document as a pukka schema
+ *
+ * Supports objects, arrays and string, number, integer and boolean types,
+ * with their common constraints, enum, const and default.
+ * title, description and the first of examples become label, description and example.
+ * Throws an error listing every unsupported keyword.
+ *
+ * @example
+ * ```typescript
+ * const schema = fromJSONSchema({
+ *   type: "object",
+ *   properties: {
+ *     name: { type: "string", minLength: 1 },
+ *     tags: { type: "array", items: { type: "string" } },
+ *   },
+ *   required: ["name"],
+ * } as const)
+ *
+ * const validate = validator.for(schema)
+ *
+ * // Infer<typeof schema> is { name: string, tags: string[] | undefined }
+ * ```
+ */
+export function fromJSONSchema<const T extends JSONSchema>(
+  doc: T,
+): FromJSONSchema<T>;
+export function fromJSONSchema(doc: unknown): Schema;
+export function fromJSONSchema(doc: unknown): Schema {
+  if (!isObject(doc) || ("type" in doc && doc.type !== "object")) {
+    throw new Error("Unsupported JSON Schema: root must be an object schema");
+  }
+
+  const unsupported: string[] = [];
+  const schema = convertObject(doc, "#", unsupported);
+
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Unsupported JSON Schema keywords: ${unsupported.join(", ")}`,
+    );
+  }
+  return schema as Schema;
+}
+
+function convert(
+  doc: Record<string, any>,
+  pointer: string,
+  unsupported: string[],
+): PropertyType {
+  const keywords = Object.keys(doc).filter((key) => !ANNOTATIONS.includes(key));
+
+  const report = (keyword: string) => unsupported.push(`${pointer}/${keyword}`);
+
+  // enum and const, default is their only other keyword
+  const values = "const" in doc ? [doc.const] : doc.enum;
+  if (values != null) {
+    for (const keyword of keywords) {
+      if (!["const", "enum", "default", "type"].includes(keyword)) {
+        report(keyword);
+      }
+    }
+    if (!isArray(values) || values.some((value) => !isLiteral(value))) {
+      report("const" in doc ? "const" : "enum");
+    }
+    return withOptions(oneOf(values as []), doc);
+  }
+
+  const type = doc.type ?? (doc.properties ? "object" : undefined);
+  const allowed = KEYWORDS[type];
+
+  if (allowed == null) {
+    const others = keywords.filter((keyword) => keyword !== "default");
+    for (const keyword of others.length > 0 ? others : ["type"]) {
+      report(keyword);
+    }
+    return "string";
+  }
+
+  for (const keyword of keywords) {
+    if (
+      keyword !== "type" &&
+      keyword !== "default" &&
+      !allowed.includes(keyword)
+    ) {
+      report(keyword);
+    }
+  }
+
+  if (type === "array") {
+    if (!isObject(doc.items)) report("items");
+    const items = convert(doc.items ?? {}, `${pointer}/items`, unsupported);
+    return withOptions(
+      [items] as FieldOptions["type"],
+      doc,
+      doc.minItems,
+      doc.maxItems,
+    );
+  }
+
+  if (type === "object") {
+    return convertObject(doc, pointer, unsupported);
+  }
+
+  let primitive = type as PrimitiveType;
+  if (doc.format != null) {
+    primitive = FORMATS[type]?.[doc.format] ?? primitive;
+    if (FORMATS[type]?.[doc.format] == null) report(`format (${doc.format})`);
+  }
+
+  if (type === "string") {
+    const pattern = doc.pattern == null ? undefined : new RegExp(doc.pattern);
+    return withOptions(primitive, doc, doc.minLength, doc.maxLength, pattern);
+  }
+
+  return withOptions(primitive, doc, doc.minimum, doc.maximum);
+}
+
+function convertObject(
+  doc: Record<string, any>,
+  pointer: string,
+  unsupported: string[],
+): PropertyType {
+  const { properties, additionalProperties, required = [] } = doc;
+  const root = pointer === "#";
+
+  const report = (keyword: string) => unsupported.push(`${pointer}/${keyword}`);
+
+  // only additionalProperties schema, a record
+  if (!root && properties == null && isObject(additionalProperties)) {
+    const values = convert(
+      additionalProperties,
+      `${pointer}/additionalProperties`,
+      unsupported,
+    );
+    const pattern = doc.propertyNames?.pattern;
+    for (const keyword of Object.keys(doc.propertyNames ?? {})) {
+      if (keyword !== "pattern") report(`propertyNames/${keyword}`);
+    }
+    return withOptions(
+      record(values, {
+        ...(pattern != null && { pattern: new RegExp(pattern) }),
+        ...(doc.maxProperties != null && { maxKeys: doc.maxProperties }),
+      }),
+      doc,
+    );
+  }
+
+  // the root schema can't carry options, see the unknownKeys validator option
+  if (
+    isObject(additionalProperties) ||
+    (root && additionalProperties != null)
+  ) {
+    report("additionalProperties");
+  }
+  if (doc.propertyNames != null) report("propertyNames");
+  if (doc.maxProperties != null) report("maxProperties");
+  if (root && doc.default !== undefined) report("default");
+
+  const schema: Schema = {};
+  for (const [name, property] of Object.entries(properties ?? {})) {
+    const propertyPointer = `${pointer}/properties/${name}`;
+    // pukka keys can't have these characters
+    if (/[:?=]/.test(name)) {
+      unsupported.push(`${propertyPointer} (property name)`);
+      continue;
+    }
+    if (!isObject(property)) {
+      unsupported.push(propertyPointer);
+      continue;
+    }
+    const key = required.includes(name) ? name : `${name}?`;
+    schema[key] = convert(property, propertyPointer, unsupported);
+  }
+
+  const unknownKeys =
+    additionalProperties === false
+      ? "error"
+      : additionalProperties === true
+        ? "passthrough"
+        : undefined;
+
+  // the root title and description are only annotations
+  if (root) return schema;
+
+  return withOptions(schema, doc, undefined, undefined, undefined, unknownKeys);
+}
+
+const isLiteral = (value: unknown) =>
+  ["string", "number", "boolean"].includes(typeof value);
+
+/** field definition when there are options, else just the type */
+function withOptions(
+  type: FieldOptions["type"],
+  doc: Record<string, any>,
+  min?: number,
+  max?: number,
+  pattern?: RegExp,
+  unknownKeys?: "error" | "passthrough",
+): PropertyType {
+  const options = Object.entries({
+    min,
+    max,
+    pattern,
+    unknownKeys,
+    default: doc.default,
+    label: doc.title,
+    description: doc.description,
+    example: isArray(doc.examples) ? doc.examples[0] : undefined,
+  }).filter(([, value]) => value !== undefined);
+  if (options.length === 0) return type;
+  return field({ type, ...Object.fromEntries(options) });
+}
@@ -0,0 +1,214 @@
+import { getKey, words } from "./helper";
+import type {
+  BasicError,
+  Locale,
+  MessageCatalog,
+  ValidatorOptions,
+} from "./types";
+
+/** bundled catalogs, see the locale option */
+export const locales: Record<Locale, MessageCatalog> = {
+  en: {
+    label: (key) => words(key, true),
+    messages: {
+      required: "{label} is required",
+      type: "Expected '{expected}', received '{received}'",
+      array: "Array length {length} is greater than limit {limit}",
+      record: "Record size {length} is greater than limit {limit}",
+      depth: "Nesting depth is greater than limit {limit}",
+      unrecognized_keys: "Unrecognized key '{key}'",
+      enum: "Expected one of {values}, received '{received}'",
+      too_small: "Value {received} is less than minimum {min}",
+      too_small_length: "Length {received} is less than minimum {min}",
+      too_big: "Value {received} is greater than maximum {max}",
+      too_big_length: "Length {received} is greater than maximum {max}",
+      pattern: "Expected to match '{pattern}', received '{received}'",
+      exception: "Exception: {error}",
+      required_if: "{label} is required when {field} is {value}",
+      forbidden_if: "{label} is not allowed when {field} is {value}",
+      equals_field: "{label} must match {field}",
+      at_least_one_of: "At least one of {fields} is required",
+      file_too_small: "File size {received} is less than minimum {min}",
+      file_too_big: "File size {received} is greater than maximum {max}",
+      file_type: "File type '{received}' is not accepted, expected {accept}",
+      too_many_files: "Expected at most {max} files, received {received}",
+    },
+  },
+  fr: {
+    label: (key) => words(key, false),
+    messages: {
+      required: "{label} est obligatoire",
+      type: "'{expected}' attendu, '{received}' reçu",
+      array: "La taille du tableau {length} dépasse la limite {limit}",
+      record: "Le nombre de clés {length} dépasse la limite {limit}",
+      depth: "La profondeur dépasse la limite {limit}",
+      unrecognized_keys: "Clé '{key}' non reconnue",
+      enum: "Une valeur parmi {values} attendue, '{received}' reçu",
+      too_small: "La valeur {received} est inférieure au minimum {min}",
+      too_small_length:
+        "La longueur {received} est inférieure au minimum {min}",
+      too_big: "La valeur {received} est supérieure au maximum {max}",
+      too_big_length: "La longueur {received} est supérieure au maximum {max}",
+      pattern: "Format '{pattern}' attendu, '{received}' reçu",
+      exception: "Exception : {error}",
+      required_if: "{label} est obligatoire lorsque {field} vaut {value}",
+      forbidden_if: "{label} n'est pas autorisé lorsque {field} vaut {value}",
+      equals_field: "{label} doit correspondre à {field}",
+      at_least_one_of: "Au moins un des champs {fields} est obligatoire",
+      file_too_small:
+        "La taille du fichier {received} est inférieure au minimum {min}",
+      file_too_big:
+        "La taille du fichier {received} est supérieure au maximum {max}",
+      file_type: "Type de fichier '{received}' non accepté, {accept} attendu",
+      too_many_files: "{max} fichiers au maximum attendus, {received} reçus",
+    },
+  },
+  de: {
+    label: (key) => words(key, true),
+    messages: {
+      required: "{label} ist erforderlich",
+      type: "'{expected}' erwartet, '{received}' erhalten",
+      array: "Array-Länge {length} ist größer als das Limit {limit}",
+      record: "Anzahl der Schlüssel {length} ist größer als das Limit {limit}",
+      depth: "Verschachtelungstiefe ist größer als das Limit {limit}",
+      unrecognized_keys: "Unbekannter Schlüssel '{key}'",
+      enum: "Einer der Werte {values} erwartet, '{received}' erhalten",
+      too_small: "Wert {received} ist kleiner als das Minimum {min}",
+      too_small_length: "Länge {received} ist kleiner als das Minimum {min}",
+      too_big: "Wert {received} ist größer als das Maximum {max}",
+      too_big_length: "Länge {received} ist größer als das Maximum {max}",
+      pattern: "Format '{pattern}' erwartet, '{received}' erhalten",
+      exception: "Ausnahme: {error}",
+      required_if: "{label} ist erforderlich, wenn {field} {value} ist",
+      forbidden_if: "{label} ist nicht erlaubt, wenn {field} {value} ist",
+      equals_field: "{label} muss mit {field} übereinstimmen",
+      at_least_one_of: "Mindestens eines von {fields} ist erforderlich",
+      file_too_small: "Dateigröße {received} ist kleiner als das Minimum {min}",
+      file_too_big: "Dateigröße {received} ist größer als das Maximum {max}",
+      file_type:
+        "Dateityp '{received}' wird nicht akzeptiert, {accept} erwartet",
+      too_many_files: "Höchstens {max} Dateien erwartet, {received} erhalten",
+    },
+  },
+  es: {
+    label: (key) => words(key, false),
+    messages: {
+      required: "{label} es obligatorio",
+      type: "Se esperaba '{expected}', se recibió '{received}'",
+      array: "La longitud del array {length} supera el límite {limit}",
+      record: "El número de claves {length} supera el límite {limit}",
+      depth: "La profundidad supera el límite {limit}",
+      unrecognized_keys: "Clave '{key}' no reconocida",
+      enum: "Se esperaba uno de {values}, se recibió '{received}'",
+      too_small: "El valor {received} es menor que el mínimo {min}",
+      too_small_length: "La longitud {received} es menor que el mínimo {min}",
+      too_big: "El valor {received} es mayor que el máximo {max}",
+      too_big_length: "La longitud {received} es mayor que el máximo {max}",
+      pattern: "Se esperaba el formato '{pattern}', se recibió '{received}'",
+      exception: "Excepción: {error}",
+      required_if: "{label} es obligatorio cuando {field} es {value}",
+      forbidden_if: "{label} no está permitido cuando {field} es {value}",
+      equals_field: "{label} debe coincidir con {field}",
+      at_least_one_of: "Se requiere al menos uno de {fields}",
+      file_too_small:
+        "El tamaño del archivo {received} es menor que el mínimo {min}",
+      file_too_big:
+        "El tamaño del archivo {received} es mayor que el máximo {max}",
+      file_type:
+        "Tipo de archivo '{received}' no aceptado, se esperaba {accept}",
+      too_many_files:
+        "Se esperaban como máximo {max} archivos, se recibieron {received}",
+    },
+  },
+};
+
+const isLength = (type: string) => type === "string" || type === "array";
+
+/** 1536 => "1.5 KB" */
+const fileSize = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB"];
+  let unit = 0;
+  while (bytes >= 1024 && unit < units.length - 1) {
+    bytes /= 1024;
+    unit += 1;
+  }
+  return `${Number(bytes.toFixed(1))} ${units[unit]}`;
+};
+
+/** placeholder values of an error, other fields as their labels */
+function params(
+  error: BasicError,
+  labelOf: (field: string) => string,
+): Record<string, unknown> {
+  switch (error.code) {
+    case "enum":
+      return {
+        ...error,
+        values: error.values.map((value) => `'${value}'`).join(", "),
+      };
+    case "pattern":
+      return { ...error, pattern: error.pattern.source };
+    case "exception":
+      return { error: error.error.message };
+    case "required_if":
+    case "forbidden_if":
+    case "equals_field":
+      return { ...error, field: labelOf(error.field) };
+    case "at_least_one_of":
+      return { fields: error.fields.map(labelOf).join(", ") };
+    case "file_too_small":
+      return { min: fileSize(error.min), received: fileSize(error.received) };
+    case "file_too_big":
+      return { max: fileSize(error.max), received: fileSize(error.received) };
+    default:
+      return error;
+  }
+}
+
+/** "{label} is required" with { label: "Name" } => "Name is required" */
+const interpolate = (template: string, values: Record<string, unknown>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder,
+  );
+
+/**
+ * message of the locale, the errorMessage option takes precedence, then translated labels and the schema label,
+ * fieldLabels are the schema labels of the other fields of the object, for rules between fields
+ */
+export const getErrorMessage = (
+  path: string,
+  error: BasicError,
+  options: ValidatorOptions<{}>,
+  schemaLabel?: string,
+  fieldLabels: Record<string, string> = {},
+) => {
+  const key = getKey(path) as any;
+  const override = options.errorMessage?.(key, error);
+  if (override != null) return override;
+
+  const { locale = "en", labels } = options;
+  // locales that aren't bundled, e.g. "it" from config, fall back to en
+  const catalog =
+    typeof locale !== "string"
+      ? locale
+      : Object.hasOwn(locales, locale)
+        ? locales[locale]
+        : locales.en;
+  const name =
+    "type" in error && isLength(error.type)
+      ? (`${error.code}_length` as const)
+      : error.code;
+  const labelOf = (fieldKey: string, fieldLabel?: string) =>
+    (labels as Record<string, string> | undefined)?.[fieldKey] ??
+    fieldLabel ??
+    catalog.label?.(fieldKey) ??
+    words(fieldKey, true);
+  // address.state => address.country
+  const sibling = (field: string) =>
+    labelOf(key.replace(/[^.]*$/, field), fieldLabels[field]);
+  const label = labelOf(key, schemaLabel);
+  return interpolate(catalog.messages[name], {
+    ...params(error, sibling),
+    label,
+  });
+};
@@ -0,0 +1,156 @@
+import {
+  isArray,
+  isEnum,
+  isLazy,
+  isObject,
+  isRecord,
+  isUnion,
+  stringify,
+} from "./helper";
+import type { Infer, ParsedUnion, Property, RecordType, Schema } from "./types";
+import { parseSchema, resolveLazy, selectBranch } from "./validator";
+
+export type SerializeOptions = {
+  /** arrays of primitives as tags=a&tags=b (default) or tags[0]=a&tags[1]=b */
+  arrays?: "repeat" | "index";
+};
+
+type Entry = [name: string, value: string | File];
+
+/**
+ * Data as FormData, the inverse of validating FormData
+ *
+ * Names use aliases and the address.street and items[0].name paths.
+ * Throws for data that wouldn't validate the same, required empty arrays
+ * and record keys like "a.b" that are read as paths
+ *
+ * @example
+ * ```typescript
+ * const body = toFormData(schema, { name: "Jane", tags: ["a", "b"] })
+ * // name=Jane&tags=a&tags=b
+ * ```
+ */
+export function toFormData<S extends Schema>(
+  schema: S,
+  data: Infer<S>,
+  options?: SerializeOptions,
+) {
+  const formData = new FormData();
+  for (const [name, value] of serialize(schema, data, options)) {
+    formData.append(name, value);
+  }
+  return formData;
+}
+
+/**
+ * Data as URLSearchParams, e.g. for a prefilled query string, files are left out
+ *
+ * @example
+ * ```typescript
+ * const query = toSearchParams(schema, { q: "shoes", page: 2 })
+ * redirect(`/search?${query}`)
+ * ```
+ */
+export function toSearchParams<S extends Schema>(
+  schema: S,
+  data: Infer<S>,
+  options?: SerializeOptions,
+) {
+  const params = new URLSearchParams();
+  for (const [name, value] of serialize(schema, data, options)) {
+    if (typeof value === "string") params.append(name, value);
+  }
+  return params;
+}
+
+function serialize(
+  schema: Schema,
+  data: unknown,
+  options: SerializeOptions = {},
+) {
+  const entries: Entry[] = [];
+  const root = { key: "", type: parseSchema(schema) };
+  append(entries, "", root, data, options);
+  return entries;
+}
+
+const join = (name: string, key: string | number) =>
+  typeof key === "number"
+    ? `${name}[${key}]`
+    : name === ""
+      ? key
+      : `${name}.${key}`;
+
+const isPrimitive = (property: Property) =>
+  typeof property.type === "string" || isEnum(property.type);
+
+// validating reads these as paths, e.g. a.b and a[0]
+const PATH = /\.|\[\s*\d+\s*\]/;
+
+/** empty arrays have no entries, missing is an empty array only when that is valid */
+const isEmptyValid = ({ optional, default: value }: Property) =>
+  optional === true || (isArray(value) && value.length === 0);
+
+function append(
+  entries: Entry[],
+  name: string,
+  property: Property,
+  value: any,
+  options: SerializeOptions,
+) {
+  if (value == null) return;
+
+  const type = isLazy(property.type)
+    ? resolveLazy(property.type)
+    : property.type;
+
+  if (isArray(type)) {
+    if (value.length === 0 && !isEmptyValid(property)) {
+      throw new Error(
+        `Can't serialize the empty array '${name}', it would be read as missing`,
+      );
+    }
+    const [item] = type;
+    // repeated names can't be used for nested objects
+    const repeat = options.arrays !== "index" && isPrimitive(item);
+    (value as unknown[]).forEach((itemValue, index) => {
+      const itemName = repeat ? name : join(name, index);
+      append(entries, itemName, item, itemValue, options);
+    });
+  } else if (isRecord<RecordType<Property>>(type)) {
+    for (const [key, entryValue] of Object.entries(value)) {
+      if (PATH.test(key)) {
+        throw new Error(
+          `Can't serialize the key '${key}' of '${name}', it would be read as a path`,
+        );
+      }
+      append(entries, join(name, key), type.values, entryValue, options);
+    }
+  } else if (isUnion<ParsedUnion>(type)) {
+    const fields = selectBranch(type, value) ?? {};
+    appendFields(entries, name, fields, value, options);
+  } else if (isObject(type) && !isEnum(type)) {
+    appendFields(
+      entries,
+      name,
+      type as Record<string, Property>,
+      value,
+      options,
+    );
+  } else {
+    entries.push([name, value instanceof File ? value : stringify(value)]);
+  }
+}
+
+function appendFields(
+  entries: Entry[],
+  name: string,
+  fields: Record<string, Property>,
+  value: any,
+  options: SerializeOptions,
+) {
+  for (const field of Object.values(fields)) {
+    const fieldName = join(name, field.alias ?? String(field.key));
+    append(entries, fieldName, field, value[field.key], options);
+  }
+}
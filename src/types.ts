@@ -1,56 +1,399 @@
-type Primitive = string | number | boolean | bigint | File;
+import type { KIND } from "./helper";
 
-export type PrimitiveType = "string" | "boolean" | "number" | "bigint" | "file";
+type Primitive = string | number | boolean | bigint | File | Date;
+
+export type Literal = string | number | boolean;
+
+export type PrimitiveType =
+  | "string"
+  | "boolean"
+  | "number"
+  | "integer"
+  | "bigint"
+  | "file"
+  | "date"
+  | "datetime";
 
 type PrimitiveMap = {
   string: string;
   boolean: boolean;
   number: number;
+  integer: number;
   bigint: bigint;
   file: File;
+  date: Date;
+  datetime: Date;
+};
+
+/** string, number, integer or bigint with an inclusive range, e.g. "string(3..50)" */
+export type RangeType =
+  `${"string" | "number" | "integer" | "bigint"}(${string})`;
+
+/** length of a string or array, value of a number or bigint */
+export type Constraints = {
+  min?: number;
+  max?: number;
+  length?: number;
+  pattern?: RegExp;
+};
+
+/** size in bytes and accepted types of a file, maxFiles for arrays of files */
+export type FileConstraints = {
+  minSize?: number;
+  maxSize?: number;
+  /** MIME types and extensions like the accept attribute, e.g. "image/*, .pdf" */
+  accept?: string | readonly string[];
+  maxFiles?: number;
+};
+
+/** value used when input is null or missing */
+export type Default = {
+  default?: unknown;
+};
+
+/** for people, used by error messages, the form helper and JSON Schema */
+export type Metadata = {
+  label?: string;
+  description?: string;
+  placeholder?: string;
+  example?: unknown;
+};
+
+/** values of other fields of the same object, each a value or any of the values, after coercion */
+export type Condition = { [field: string]: Literal | readonly Literal[] };
+
+/** requirements between fields of the same object, reported at the field that has them */
+export type Rules = {
+  /** required when the condition holds, for optional fields */
+  requiredIf?: Condition;
+  /** must be missing when the condition holds */
+  forbiddenIf?: Condition;
+  /** same value as the other field, e.g. a password confirmation */
+  equalsField?: string;
+  /** this field or one of the other fields is required */
+  atLeastOneOf?: readonly string[];
+};
+
+/** rules of the fields of an object and their schema labels, for messages */
+export type ObjectRules = {
+  fields: Record<string, Rules>;
+  labels: Record<string, string>;
+};
+
+/** built-in transforms, they keep the type of the value */
+export type TransformName =
+  | "trim"
+  | "toLowerCase"
+  | "toUpperCase"
+  | "collapseWhitespace"
+  | "round";
+
+export type Transform = TransformName | ((value: any) => unknown);
+
+/** applied in order after coercion, a tuple so the last output can be inferred */
+export type Transforms = {
+  transform?: Transform | readonly [Transform, ...Transform[]];
+};
+
+/** what to do with input keys that are not in the schema, default is strip */
+export type UnknownKeys = "strip" | "passthrough" | "error";
+
+export type ObjectOptions = {
+  unknownKeys?: UnknownKeys;
+};
+
+/** one of the given literal values, see oneOf */
+export type EnumType<T extends Literal = Literal> = {
+  [KIND]: "enum";
+  values: readonly T[];
+};
+
+type Branches = { [key: string]: { [key: string]: PropertyType } };
+
+/** object type chosen by the value of its discriminator key, see union */
+export type UnionType<
+  D extends string = string,
+  B extends Branches = Branches,
+> = {
+  [KIND]: "union";
+  discriminator: D;
+  branches: B;
+};
+
+/** object with any keys, each value of the given type, see record */
+export type RecordType<V = unknown> = {
+  [KIND]: "record";
+  values: V;
+  pattern?: RegExp;
+  maxKeys?: number;
+};
+
+/** schema resolved when validating, T is the inferred type, see lazy */
+export type LazyType<T = unknown> = {
+  [KIND]: "lazy";
+  schema: () => Schema;
+  _?: T;
 };
 
-export type PropertyType =
+type BaseType =
   | PrimitiveType
+  | RangeType
+  | EnumType
+  | UnionType
+  | RecordType
+  | LazyType
   | { [key: string]: PropertyType }
-  | [PrimitiveType | { [key: string]: PropertyType }];
+  | [ItemType];
 
-export type Property = {
-  key: string | number;
-  alias?: string;
-  optional?: boolean;
-  type:
-    | PrimitiveType
-    | { [key: string]: Property }
-    | [PrimitiveType | { [key: string]: Property }];
+type ItemType =
+  | PrimitiveType
+  | RangeType
+  | EnumType
+  | UnionType
+  | RecordType
+  | LazyType
+  | Field
+  | { [key: string]: PropertyType };
+
+/** type with options, e.g. { type: "number", min: 0, max: 120, default: 18 } */
+export type FieldOptions = Constraints &
+  FileConstraints &
+  Default &
+  ObjectOptions &
+  Transforms &
+  Metadata &
+  Rules & { type: BaseType };
+
+export type FieldTag = { [KIND]: "field" };
+
+/** type with options, see field */
+export type Field = FieldOptions & FieldTag;
+
+export type PropertyType = BaseType | Field;
+
+/** union with parsed branches */
+export type ParsedUnion = {
+  [KIND]: "union";
+  discriminator: string;
+  branches: Record<string, Record<string, Property>>;
 };
 
+export type Property = Constraints &
+  FileConstraints &
+  Default &
+  ObjectOptions &
+  Transforms &
+  Metadata &
+  Rules & {
+    key: string | number;
+    alias?: string;
+    optional?: boolean;
+    type:
+      | PrimitiveType
+      | EnumType
+      | ParsedUnion
+      | LazyType
+      | { [key: string]: Property }
+      | [Property];
+  };
+
 export type Schema = Record<string, PropertyType>;
 
 type Simplify<T> = { [K in keyof T]: T[K] } & {};
 
-// return key after removing ":" and "?"
-type Key<K extends string> = K extends `${infer P}${":" | "?"}${string}`
-  ? P
-  : K;
+type Before<
+  K extends string,
+  D extends string,
+> = K extends `${infer P}${D}${string}` ? P : K;
+
+// return key after removing "=", "?" and ":"
+type Key<K extends string> = Before<Before<Before<K, "=">, "?">, ":">;
 
-// keys that don't have "?"" at end
-type RequiredKeys<K extends string> = K extends `${string}?` ? never : Key<K>;
+// "key=value" or a field with a default
+type HasDefault<K extends string, V> = K extends `${string}=${string}`
+  ? true
+  : [FieldOf<V>] extends [never]
+    ? false
+    : V extends { default: any }
+      ? true
+      : false;
 
-// keys that have a "?" at end
-type OptionalKeys<K extends string> = K extends `${infer P}?` ? Key<P> : never;
+// keys that don't have "?"" at end, or have a default
+type RequiredKeys<K extends string, V> = K extends `${string}?`
+  ? HasDefault<K, V> extends true
+    ? Key<K>
+    : never
+  : Key<K>;
+
+// keys that have a "?" at end and no default
+type OptionalKeys<K extends string, V> = K extends `${infer P}?`
+  ? HasDefault<K, V> extends true
+    ? never
+    : Key<P>
+  : never;
 
-type InferValue<V> = V extends PrimitiveType
+// type of a field definition, never for anything else
+type FieldOf<V> = V extends Field ? V["type"] : never;
+
+// field definition to its type
+type Unwrap<V> = [FieldOf<V>] extends [never] ? V : FieldOf<V>;
+
+type InferType<V> = V extends PrimitiveType
   ? PrimitiveMap[V]
-  : V extends [infer E]
-    ? InferValue<E>[]
-    : Infer<V>;
+  : V extends `${infer P extends PrimitiveType}(${string})`
+    ? PrimitiveMap[P]
+    : V extends EnumType<infer T>
+      ? T
+      : V extends UnionType<infer D, infer B>
+        ? InferUnion<D, B>
+        : V extends RecordType<infer T>
+          ? Record<string, InferValue<T>>
+          : V extends LazyType<infer T>
+            ? T
+            : V extends [infer E]
+              ? InferValue<E>[]
+              : Infer<V>;
+
+// output of the last transform function, built-in transforms keep the type
+type Transformed<V, T> = V extends { transform: infer F }
+  ? F extends readonly [...unknown[], infer L]
+    ? TransformOutput<L, T>
+    : TransformOutput<F, T>
+  : T;
+
+type TransformOutput<F, T> = F extends (...args: any[]) => infer R ? R : T;
+
+type InferValue<V> = Transformed<V, InferType<Unwrap<V>>>;
+
+type InferUnion<D extends string, B extends Record<string, Schema>> = {
+  [K in keyof B]: Simplify<{ [P in D]: K } & Infer<B[K]>>;
+}[keyof B];
 
 export type Infer<T> = Simplify<
   {
-    [K in keyof T as RequiredKeys<K & string>]: InferValue<T[K]>;
+    [K in keyof T as RequiredKeys<K & string, T[K]>]: InferValue<T[K]>;
   } & {
-    [K in keyof T as OptionalKeys<K & string>]: InferValue<T[K]> | undefined;
+    [K in keyof T as OptionalKeys<K & string, T[K]>]:
+      | InferValue<T[K]>
+      | undefined;
+  }
+>;
+
+// field names of a schema, without alias, "?" or default
+export type SchemaFields<S> = Key<keyof S & string>;
+
+/** fields of E replace the fields of S with the same name, see extend */
+export type ExtendSchema<S, E> = Simplify<
+  {
+    [K in keyof S as Key<K & string> extends SchemaFields<E> ? never : K]: S[K];
+  } & E
+>;
+
+/** see merge */
+export type MergeSchemas<T extends readonly Schema[]> = T extends readonly [
+  infer S,
+  ...infer R extends readonly Schema[],
+]
+  ? ExtendSchema<S, MergeSchemas<R>>
+  : {};
+
+/** see pick */
+export type PickSchema<S, N> = {
+  [K in keyof S as Key<K & string> extends N ? K : never]: S[K];
+};
+
+/** see omit */
+export type OmitSchema<S, N> = {
+  [K in keyof S as Key<K & string> extends N ? never : K]: S[K];
+};
+
+// "name" => "name?", "name=1" => "name?=1"
+type OptionalKey<K> = K extends `${infer H}=${infer D}`
+  ? H extends `${string}?`
+    ? K
+    : `${H}?=${D}`
+  : K extends `${string}?`
+    ? K
+    : `${K & string}?`;
+
+// "name?" => "name", "name?=1" => "name=1"
+type RequiredKey<K> = K extends `${infer H}?=${infer D}`
+  ? `${H}=${D}`
+  : K extends `${infer H}?`
+    ? H
+    : K;
+
+/** see partial */
+export type PartialSchema<S> = {
+  [K in keyof S as OptionalKey<K>]: S[K];
+};
+
+/** see required */
+export type RequiredSchema<S> = {
+  [K in keyof S as RequiredKey<K>]: S[K];
+};
+
+type DeepPartialType<V> = V extends string | EnumType | LazyType
+  ? V
+  : V extends UnionType<infer D, infer B>
+    ? UnionType<
+        D,
+        Extract<{ [T in keyof B]: DeepPartialSchema<B[T]> }, Branches>
+      >
+    : V extends RecordType<infer T>
+      ? RecordType<DeepPartialType<T>>
+      : V extends [infer E]
+        ? [DeepPartialType<E>]
+        : [FieldOf<V>] extends [never]
+          ? DeepPartialSchema<V>
+          : Simplify<Omit<V, "type"> & { type: DeepPartialType<FieldOf<V>> }>;
+
+/** see deepPartial */
+export type DeepPartialSchema<S> = {
+  [K in keyof S as OptionalKey<K>]: DeepPartialType<S[K]>;
+};
+
+// "name:alias?=default" => alias, or name without an alias
+type InputKey<K extends string> = Before<
+  Before<K, "=">,
+  "?"
+> extends `${string}:${infer A}`
+  ? A
+  : Key<K>;
+
+// fields with "?" or a default can be left out of the input
+type InputOptional<K extends string, V> = K extends `${string}?`
+  ? true
+  : HasDefault<K, V>;
+
+type InferInputType<V> = V extends PrimitiveType
+  ? PrimitiveMap[V]
+  : V extends `${infer P extends PrimitiveType}(${string})`
+    ? PrimitiveMap[P]
+    : V extends EnumType<infer T>
+      ? T
+      : V extends UnionType<infer D, infer B>
+        ? {
+            [K in keyof B]: Simplify<{ [P in D]: K } & InferInput<B[K]>>;
+          }[keyof B]
+        : V extends RecordType<infer T>
+          ? Record<string, InferInputType<Unwrap<T>>>
+          : V extends LazyType<infer T>
+            ? T
+            : V extends [infer E]
+              ? InferInputType<Unwrap<E>>[]
+              : InferInput<V>;
+
+/** input accepted by a schema, by alias and before transforms */
+export type InferInput<T> = Simplify<
+  {
+    [K in keyof T as InputOptional<K & string, T[K]> extends true
+      ? never
+      : InputKey<K & string>]: InferInputType<Unwrap<T[K]>>;
+  } & {
+    [K in keyof T as InputOptional<K & string, T[K]> extends true
+      ? InputKey<K & string>
+      : never]?: InferInputType<Unwrap<T[K]>>;
   }
 >;
 
@@ -66,21 +409,40 @@ type DeepPartial<T> = T extends Primitive
     ? DeepPartial<T[number]>[] | undefined
     : { [K in keyof T]-?: DeepPartial<T[K]> } | undefined;
 
+/** error with a code of your own, e.g. { code: "taken", message: "Name is taken" } */
+export type CustomError = {
+  code: string;
+  message: string;
+  params?: Record<string, unknown>;
+};
+
 type PushIssue<P extends string> = {
-  push(error: string | ((key: P) => string)): void;
+  push(error: string | ((key: P) => string) | CustomError): void;
 };
 
+// keys of every member of a union, e.g. all fields of a discriminated union
+type UnionKeys<T> = T extends unknown ? keyof T : never;
+
+// type of key K in the union members that have it
+type UnionValue<T, K extends PropertyKey> = T extends unknown
+  ? K extends keyof T
+    ? T[K]
+    : never
+  : never;
+
 export type Issues<T, P extends string = ""> = PushIssue<P> &
-  (T extends Primitive
-    ? {}
-    : T extends any[]
-      ? { [K: number]: Issues<T[number], P> }
-      : {
-          [K in keyof T]-?: Issues<
-            T[K],
-            `${P extends "" ? "" : `${P}.`}${K & string}`
-          >;
-        });
+  IssueFields<NonNullable<T>, P>;
+
+type IssueFields<T, P extends string> = [T] extends [Primitive]
+  ? {}
+  : [T] extends [any[]]
+    ? { [K: number]: Issues<T[number], P> }
+    : {
+        [K in UnionKeys<T>]-?: Issues<
+          UnionValue<T, K>,
+          `${P extends "" ? "" : `${P}.`}${K & string}`
+        >;
+      };
 
 export type Errors = Record<
   string,
@@ -90,52 +452,180 @@ export type Errors = Record<
   }
 >;
 
+/** machine-readable error, code is a BasicError code or "custom" for messages pushed as strings */
+export type ValidationIssue = {
+  path: string;
+  code: string;
+  params: Record<string, unknown>;
+  message: string;
+};
+
 export type ValidationResult<Data extends Record<string, unknown>> =
   | {
       success: true;
       data: Data;
       errors: Errors;
+      issues: ValidationIssue[];
     }
   | {
       success: false;
       data: DeepPartial<Data> & {};
       errors: Errors;
+      issues: ValidationIssue[];
     };
 
-export type FormHelper<T> = T extends Primitive
+/** attributes for an input, see form.helper */
+export type InputAttrs = {
+  name: string;
+  value?: string;
+  placeholder?: string;
+  checked?: boolean;
+  type?: string;
+  required?: boolean;
+  multiple?: boolean;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  accept?: string;
+  "aria-invalid"?: boolean;
+  "aria-describedby"?: string;
+};
+
+/** label is the key as words without a label in the schema */
+type FieldMetadata = {
+  label: string;
+  description: string | undefined;
+  placeholder: string | undefined;
+};
+
+/** M is the metadata of the fields, which needs the schema */
+export type FormHelper<T, M = FieldMetadata> = FormFields<NonNullable<T>, M>;
+
+type FormFields<T, M> = [T] extends [Primitive]
   ? {
       value: string;
       errors: string[];
       path: string;
-    }
-  : T extends any[]
-    ? { [K: number]: FormHelper<T[number]> } & {
+      attrs: InputAttrs;
+    } & M
+  : [T] extends [any[]]
+    ? { [K: number]: FormHelper<T[number], M> } & {
         length: number;
-        [Symbol.iterator](): Iterator<FormHelper<T[number]>>;
+        [Symbol.iterator](): Iterator<FormHelper<T[number], M>>;
         errors: string[];
         path: string;
-      }
-    : { [K in keyof T]-?: FormHelper<T[K]> } & {
+        attrs: InputAttrs;
+      } & M
+    : { [K in UnionKeys<T>]-?: FormHelper<UnionValue<T, K>, M> } & {
         errors: string[];
         path: string;
       };
 
+/** subset of JSON Schema (draft 2020-12) used by pukka */
+export type JSONSchema = {
+  $schema?: string;
+  $id?: string;
+  $comment?: string;
+  title?: string;
+  description?: string;
+  examples?: readonly unknown[];
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  format?: string;
+  enum?: readonly Literal[];
+  const?: Literal;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: { readonly [key: string]: JSONSchema };
+  required?: readonly string[];
+  additionalProperties?: boolean | JSONSchema;
+  propertyNames?: JSONSchema;
+  maxProperties?: number;
+  oneOf?: readonly JSONSchema[];
+  anyOf?: readonly JSONSchema[];
+  allOf?: readonly JSONSchema[];
+  if?: JSONSchema;
+  then?: JSONSchema;
+  not?: JSONSchema;
+  default?: unknown;
+};
+
+type JSONType<T> = T extends { const: infer C extends Literal }
+  ? EnumType<C>
+  : T extends { enum: readonly (infer E extends Literal)[] }
+    ? EnumType<E>
+    : T extends { type: "string"; format: "binary" }
+      ? "file"
+      : T extends { type: "string"; format: "date" }
+        ? "date"
+        : T extends { type: "string"; format: "date-time" }
+          ? "datetime"
+          : T extends { type: "string" }
+            ? "string"
+            : T extends { type: "integer"; format: "int64" }
+              ? "bigint"
+              : T extends { type: "integer" }
+                ? "integer"
+                : T extends { type: "number" }
+                  ? "number"
+                  : T extends { type: "boolean" }
+                    ? "boolean"
+                    : T extends { type: "array"; items: infer I }
+                      ? [JSONType<I>]
+                      : T extends { properties: {} }
+                        ? FromJSONSchema<T>
+                        : T extends {
+                              additionalProperties: infer V extends object;
+                            }
+                          ? RecordType<JSONType<V>>
+                          : PropertyType;
+
+type JSONField<T> = T extends { default: infer D }
+  ? FieldTag & { type: JSONType<T>; default: D }
+  : JSONType<T>;
+
+type JSONRequired<T> = T extends { required: readonly (infer R)[] } ? R : never;
+
+/** pukka schema for a JSON Schema document declared as const */
+export type FromJSONSchema<T> = T extends { properties: infer P }
+  ? {
+      -readonly [K in keyof P & string as K extends JSONRequired<T>
+        ? K
+        : `${K}?`]: JSONField<P[K]>;
+    }
+  : Schema;
+
 export type Context = Record<string, unknown>;
 
 type Keys<Schema> = Schema extends object
   ? {
       [K in keyof Schema]-?: K extends string
-        ? Schema[K] extends [infer U]
-          ? U extends object
-            ? `${Key<K>}.${Keys<U>}` | Key<K>
-            : never
-          : Schema[K] extends object
-            ? `${Key<K>}.${Keys<Schema[K]>}` | Key<K>
-            : Key<K>
+        ? NestedKeys<Key<K>, Unwrap<Schema[K]>>
         : never;
     }[keyof Schema]
   : never;
 
+type NestedKeys<K extends string, V> = [V] extends [[infer U]]
+  ? NestedKeys<K, Unwrap<U>>
+  : [V] extends [EnumType]
+    ? K
+    : [V] extends [LazyType]
+      ? `${K}.${string}` | K
+      : [V] extends [UnionType<infer D, infer B>]
+        ? `${K}.${D | Keys<B[keyof B]>}` | K
+        : [V] extends [RecordType<infer T>]
+          ? NestedKeys<`${K}.${string}`, Unwrap<T>> | K
+          : [V] extends [object]
+            ? `${K}.${Keys<V>}` | K
+            : K;
+
 type SchemaKeys<S extends Schema> = Keys<S> | "";
 
 export type BasicError =
@@ -156,8 +646,91 @@ export type BasicError =
       code: "array";
       limit: number;
       length: number;
+    }
+  | {
+      code: "record";
+      limit: number;
+      length: number;
+    }
+  | {
+      code: "depth";
+      limit: number;
+    }
+  | {
+      code: "unrecognized_keys";
+      key: string;
+    }
+  | {
+      code: "enum";
+      values: readonly Literal[];
+      received: string;
+    }
+  | {
+      code: "too_small";
+      type: "string" | "number" | "integer" | "bigint" | "array";
+      min: number;
+      received: number | bigint;
+    }
+  | {
+      code: "too_big";
+      type: "string" | "number" | "integer" | "bigint" | "array";
+      max: number;
+      received: number | bigint;
+    }
+  | {
+      code: "pattern";
+      pattern: RegExp;
+      received: string;
+    }
+  | {
+      code: "required_if" | "forbidden_if";
+      field: string;
+      value: Literal;
+    }
+  | {
+      code: "equals_field";
+      field: string;
+    }
+  | {
+      code: "at_least_one_of";
+      fields: readonly string[];
+    }
+  | {
+      code: "file_too_small";
+      min: number;
+      received: number;
+    }
+  | {
+      code: "file_too_big";
+      max: number;
+      received: number;
+    }
+  | {
+      code: "file_type";
+      accept: string;
+      received: string;
+    }
+  | {
+      code: "too_many_files";
+      max: number;
+      received: number;
     };
 
+export type Locale = "en" | "fr" | "de" | "es";
+
+/** too_small and too_big have separate messages for string and array lengths */
+export type MessageKey =
+  | BasicError["code"]
+  | "too_small_length"
+  | "too_big_length";
+
+/** messages with {placeholders} for the error fields and {label} */
+export type MessageCatalog = {
+  messages: Record<MessageKey, string>;
+  /** label of a field key, e.g. address.zipCode => Zip Code */
+  label?: (key: string) => string;
+};
+
 export type ErrorMessageOverride<S extends Schema> = <
   K extends {} & SchemaKeys<S>,
 >(
@@ -167,25 +740,104 @@ export type ErrorMessageOverride<S extends Schema> = <
 
 export type ValidatorOptions<S extends Schema> = {
   arrayLimit?: number;
+  /** how deep lazy schemas can be nested, default is 20 */
+  maxDepth?: number;
   errorMessage?: ErrorMessageOverride<S>;
+  /** bundled locale or your own catalog, default is "en" */
+  locale?: Locale | MessageCatalog;
+  /** translated labels by key, e.g. { "address.zip": "Postleitzahl" } */
+  labels?: { [K in Keys<S>]?: string };
+  /** default for objects that don't declare unknownKeys */
+  unknownKeys?: UnknownKeys;
+  /** "missing" for the empty, nameless file of a file input with nothing selected, default is "keep" */
+  emptyFiles?: "keep" | "missing";
+  /** abort an async validator, reported as an exception */
+  signal?: AbortSignal;
+  /** async validator timeout in milliseconds */
+  timeout?: number;
+};
+
+/** Standard Schema v1 issue, see https://standardschema.dev */
+export type StandardIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+export type StandardResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardIssue> };
+
+/** Standard Schema v1 interface, for libraries that accept any validator */
+export type StandardSchemaV1<Input, Output, R> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => R;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
 };
 
-export type Validator<S extends Schema> = (
+export type Validator<S extends Schema> = ((
   input: unknown,
   options?: ValidatorOptions<S>,
-) => ValidationResult<Infer<S>>;
+) => ValidationResult<Infer<S>>) &
+  StandardSchemaV1<InferInput<S>, Infer<S>, StandardResult<Infer<S>>>;
 
 export type ValidateWithContext<S extends Schema, C extends Context> = (
   input: unknown,
   context: C & ValidatorOptions<S>,
 ) => ValidationResult<Infer<S>>;
 
+export type AsyncValidator<S extends Schema> = ((
+  input: unknown,
+  options?: ValidatorOptions<S>,
+) => Promise<ValidationResult<Infer<S>>>) &
+  StandardSchemaV1<InferInput<S>, Infer<S>, Promise<StandardResult<Infer<S>>>>;
+
+export type AsyncValidateWithContext<S extends Schema, C extends Context> = (
+  input: unknown,
+  context: C & ValidatorOptions<S>,
+) => Promise<ValidationResult<Infer<S>>>;
+
 export type SafeData<S extends Schema> = DeepRequired<Infer<S>>;
 
+/** data of a partial validator, fields that were not sent are undefined */
+export type PartialData<S extends Schema> = {
+  [K in keyof Infer<S>]-?: DeepPartial<Infer<S>[K]>;
+};
+
+export type PartialValidator<S extends Schema> = ((
+  input: unknown,
+  options?: ValidatorOptions<S>,
+) => ValidationResult<PartialData<S>>) &
+  StandardSchemaV1<
+    DeepPartial<InferInput<S>> & {},
+    PartialData<S>,
+    StandardResult<PartialData<S>>
+  >;
+
+export type PartialValidateWithContext<S extends Schema, C extends Context> = (
+  input: unknown,
+  context: C & ValidatorOptions<S>,
+) => ValidationResult<PartialData<S>>;
+
+export type PartialCallback<S extends Schema, C extends Context> = (
+  data: PartialData<S>,
+  issues: Issues<Infer<S>>,
+  ctx: C,
+) => void;
+
 export type ValidatorCallback<S extends Schema, C extends Context> = (
   data: SafeData<S>,
   issues: Issues<Infer<S>>,
   ctx: C,
 ) => void;
 
+export type AsyncValidatorCallback<S extends Schema, C extends Context> = (
+  data: SafeData<S>,
+  issues: Issues<Infer<S>>,
+  ctx: C,
+  signal: AbortSignal,
+) => void | Promise<void>;
+
 export type ContextMarker<C extends Context> = { _: C };
@@ -1,25 +1,56 @@
 import { dset } from "dset";
 import {
+  acceptList,
   addError,
   createIssues,
-  getKey,
+  KIND,
+  getIssues,
   isArray,
+  isEnum,
+  isField,
+  isLazy,
   isObject,
+  isRecord,
+  isUnion,
+  objectRules,
   stringify,
 } from "./helper";
 
+import { type CompiledSchema, type Runtime, compileSchema } from "./compile";
+import { getErrorMessage } from "./messages";
 import type {
+  AsyncValidateWithContext,
+  AsyncValidator,
+  AsyncValidatorCallback,
   BasicError,
+  Condition,
   Context,
   ContextMarker,
-  ErrorMessageOverride,
+  EnumType,
   Errors,
+  Field,
+  FieldOptions,
+  FieldTag,
+  FileConstraints,
   Infer,
+  LazyType,
+  Literal,
+  ObjectRules,
+  ParsedUnion,
+  PartialCallback,
+  PartialValidateWithContext,
+  PartialValidator,
   PrimitiveType,
   Property,
   PropertyType,
+  RecordType,
+  Rules,
   SafeData,
   Schema,
+  StandardIssue,
+  StandardResult,
+  TransformName,
+  UnionType,
   ValidateWithContext,
   ValidationResult,
   Validator,
@@ -29,7 +60,13 @@ import type {
 
 const TRUE = ["true", "1", 1];
 const FALSE = ["false", "0", 0];
-const DEFAULT_ARRAY_LIMIT = 50;
+export const DEFAULT_ARRAY_LIMIT = 50;
+export const DEFAULT_MAX_KEYS = 50;
+export const DEFAULT_MAX_DEPTH = 20;
+
+// 2024-01-15, 2024-01-15T10:30 (datetime-local, as UTC), 2024-01-15T10:30:00.000+05:30
+const DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
 
 /**
  * Define a type-safe schema for validation
@@ -40,7 +77,11 @@ const DEFAULT_ARRAY_LIMIT = 50;
  *   name: "string",
  *   age: "number",
  *   "email?": "string" // optional field
+ *   "pageSize=20": "number" // default value
  *   "username:un": "string", // field with alias
+ *   "password": "string(8..64)", // string length between 8 and 64
+ *   "score": field({ type: "number", min: 0, max: 100 }), // number with constraints
+ *   "dob": "date", // date from a date input or ISO string
  *   hobbies: ["string"], // array
  *   address: { // nested object
  *     street: "string",
@@ -52,6 +93,104 @@ const DEFAULT_ARRAY_LIMIT = 50;
  */
 export const object = <S extends Schema>(schema: S): S => schema;
 
+/**
+ * One of the given literal values, use a single value for a literal type
+ *
+ * @example
+ * ```typescript
+ * const schema = object({
+ *   status: oneOf(["draft", "published"]), // "draft" | "published"
+ *   rating: oneOf([1, 2, 3, 4, 5]), // "3" from a form is coerced to 3
+ *   terms: oneOf([true]), // must be accepted
+ * })
+ * ```
+ */
+export const oneOf = <const T extends readonly Literal[]>(
+  values: T,
+): EnumType<T[number]> => ({ [KIND]: "enum", values });
+
+/**
+ * Object type chosen by the value of a discriminator key, only the matching branch is validated
+ *
+ * @example
+ * ```typescript
+ * const schema = object({
+ *   payment: union("method", {
+ *     card: { cardNumber: "string", cvv: "string(3..4)" },
+ *     bank: { iban: "string" },
+ *   }),
+ * })
+ *
+ * // payment: { method: "card", cardNumber: string, cvv: string } | { method: "bank", iban: string }
+ * ```
+ */
+export const union = <const D extends string, B extends Record<string, Schema>>(
+  discriminator: D,
+  branches: B,
+): UnionType<D, B> => ({ [KIND]: "union", discriminator, branches });
+
+/**
+ * Object with dynamic keys, every value is validated against the given type
+ *
+ * @example
+ * ```typescript
+ * const schema = object({
+ *   translations: record("string"), // { en: "Hello", fr: "Bonjour" }
+ *   quantities: record("number(1..)", { pattern: /^[A-Z0-9]+$/, maxKeys: 100 }),
+ * })
+ *
+ * // FormData: quantities.ABC123=4
+ * ```
+ *
+ * Like arrays, the number of keys is limited, default is 50
+ */
+export const record = <V extends PropertyType>(
+  values: V,
+  options?: { pattern?: RegExp; maxKeys?: number },
+): RecordType<V> => ({ [KIND]: "record", values, ...options });
+
+/**
+ * Schema that refers to itself or to a schema declared later, resolved when validating
+ *
+ * The inferred type can't be derived from a recursive schema, so it is given as T,
+ * and the function needs a return type for the same reason
+ *
+ * @example
+ * ```typescript
+ * type Comment = { text: string, replies: Comment[] }
+ *
+ * const comment = object({
+ *   text: "string",
+ *   replies: [lazy<Comment>((): Schema => comment)],
+ * })
+ * ```
+ *
+ * Nesting is limited by the maxDepth option, default is 20
+ */
+export const lazy = <T>(schema: () => Schema): LazyType<T> => ({
+  [KIND]: "lazy",
+  schema,
+});
+
+/**
+ * Type with options like constraints, a default value, transforms and metadata
+ *
+ * @example
+ * ```typescript
+ * const schema = object({
+ *   age: field({ type: "number", min: 0, max: 120 }),
+ *   "sortBy?": field({ type: oneOf(["name", "date"]), default: "date" }),
+ *   email: field({ type: "string", transform: ["trim", "toLowerCase"], label: "Email" }),
+ * })
+ * ```
+ *
+ * An object without field is a nested schema, even if it has a type key
+ */
+export const field = <F extends FieldOptions>(options: F): F & FieldTag => ({
+  [KIND]: "field",
+  ...options,
+});
+
 /**
  * Runtime context to be used during validation
  * @example
@@ -158,34 +297,289 @@ export const validator = {
    * ```
    */
   for: createValidator,
+  /**
+   * Returns an async validator for the given schema
+   *
+   * The callback can await and push issues, use `signal` to cancel pending work
+   *
+   * @example
+   * ```typescript
+   * const validate = validator.forAsync(schema, async (data, issues, ctx, signal) => {
+   *   if (await db.users.exists(data.username, { signal })) {
+   *     issues.username.push('Username already taken')
+   *   }
+   * })
+   *
+   * const { success, data, errors } = await validate(input, { timeout: 5000 })
+   *
+   * // or validate with runtime context
+   *
+   * const validate = validator.forAsync(
+   *   schema,
+   *   usingContext<{ db: Database }>(),
+   *   async (data, issues, ctx) => {
+   *     if (!(await ctx.db.coupons.exists(data.coupon))) {
+   *       issues.coupon.push('Invalid coupon')
+   *     }
+   *   }
+   * )
+   *
+   * const result = await validate(input, { db, signal: request.signal })
+   * ```
+   *
+   * A rejected callback, a timeout or an aborted signal is reported as an exception
+   */
+  forAsync: createAsyncValidator,
+  /**
+   * Like validator.for, but generates a validation function for the schema,
+   * for hot paths that validate many inputs with the same validator
+   *
+   * Results are the same as validator.for, which is used when code generation
+   * is not allowed, e.g. by a Content Security Policy
+   *
+   * @example
+   * ```typescript
+   * const validate = validator.compile(schema, (data, issues) => {
+   *   if (data.age < 18) {
+   *     issues.age.push('Age must be at least 18')
+   *   }
+   * })
+   *
+   * const { success, data, errors } = validate(input)
+   * ```
+   */
+  compile: compileValidator,
+  /**
+   * Like validator.for, for PATCH requests: only fields that were sent are
+   * validated, missing fields are not required and get no defaults
+   *
+   * Data is deep partial, in the callback too, so rules between fields can
+   * check which ones were sent. Null is validated as with validator.for, e.g.
+   * required or the default, and a union needs its discriminator
+   *
+   * @example
+   * ```typescript
+   * const validate = validator.partial(schema, (data, issues) => {
+   *   if (data.endDate != null && data.startDate != null && data.endDate < data.startDate) {
+   *     issues.endDate.push('End date must be after start date')
+   *   }
+   * })
+   *
+   * const { success, data } = validate({ name: "Jane" }) // { name: "Jane" }
+   * ```
+   */
+  partial: createPartialValidator,
 };
 
-function parseSchema(
+// e.g. "string(3..50)", "number(-1.5..)", "bigint(..10)"
+const RANGE = /^(string|number|integer|bigint)\((-?[\d.]+)?\.\.(-?[\d.]+)?\)$/;
+
+const PRIMITIVE_TYPES = [
+  "string",
+  "boolean",
+  "number",
+  "integer",
+  "bigint",
+  "file",
+  "date",
+  "datetime",
+];
+
+function parseRange(type: string): Field {
+  const match = RANGE.exec(type);
+  const [, rangeType, min, max] = match ?? [];
+  const range: Field = field({ type: rangeType as PrimitiveType });
+  if (min != null) range.min = Number(min);
+  if (max != null) range.max = Number(max);
+  if (match == null || Number.isNaN(range.min) || Number.isNaN(range.max)) {
+    throw new Error(`Invalid type '${type}'`);
+  }
+  return range;
+}
+
+function parseProperty(
+  key: string | number,
+  type: PropertyType,
+  optional?: boolean,
+  alias?: string,
+): Property {
+  if (typeof type === "string" && type.includes("(")) {
+    type = parseRange(type);
+  }
+  if (isField(type)) {
+    const { [KIND]: _, type: fieldType, ...constraints } = type;
+    for (const name of [type.transform ?? []].flat()) {
+      if (typeof name === "string" && !Object.hasOwn(TRANSFORMS, name)) {
+        throw new Error(`Invalid transform '${name}' for '${key}'`);
+      }
+    }
+    const property = {
+      ...parseProperty(key, fieldType, optional, alias),
+      ...constraints,
+    };
+    checkTransformConstraints(property);
+    return property;
+  }
+  // a wrong name fails here rather than on every validation
+  const isPrimitive =
+    typeof type === "string" && PRIMITIVE_TYPES.includes(type);
+  if (!isPrimitive && !isObject(type) && !isArray(type)) {
+    throw new Error(`Invalid type '${String(type)}' for '${key}'`);
+  }
+  const propertyType =
+    isEnum(type) || isLazy(type)
+      ? type
+      : isUnion(type)
+        ? parseUnion(type)
+        : isRecord(type)
+          ? { ...type, values: parseProperty("", type.values as PropertyType) }
+          : isArray(type)
+            ? [parseProperty(0, type[0])]
+            : isObject(type)
+              ? parseSchema(type as Schema)
+              : (type as PrimitiveType);
+  return { key, alias, type: propertyType as Property["type"], optional };
+}
+
+/**
+ * constraints of values are checked after the transforms, by the declared type,
+ * so they can't follow a function that may return another type
+ */
+function checkTransformConstraints(property: Property) {
+  const { min, max, length, pattern } = property;
+  const pipeline = [property.transform ?? []].flat();
+  if (
+    !isArray(property.type) &&
+    pipeline.some((fn) => typeof fn === "function") &&
+    [min, max, length, pattern].some((constraint) => constraint != null)
+  ) {
+    throw new Error(
+      `Constraints of '${property.key}' can't be used with a transform function`,
+    );
+  }
+}
+
+/** each branch gets the discriminator as a literal */
+function parseUnion({ discriminator, branches }: UnionType): ParsedUnion {
+  const entries = Object.entries(branches).map(([tag, schema]) => {
+    const fields = {
+      [discriminator]: parseProperty(discriminator, oneOf([tag])),
+      ...parseSchema(schema),
+    };
+    return [tag, fields] as const;
+  });
+  return {
+    [KIND]: "union",
+    discriminator,
+    branches: Object.fromEntries(entries),
+  };
+}
+
+// discriminator value as a branch name, a form can submit it as a single item array
+const branchTag = (value: unknown) =>
+  stringify(isArray(value) && value.length === 1 ? value[0] : value);
+
+/** branch for the discriminator value, or undefined when nothing matches */
+export function selectBranch(
+  { discriminator, branches }: ParsedUnion,
+  input: any,
+) {
+  const tag = branchTag(input[discriminator]);
+  return Object.hasOwn(branches, tag) ? branches[tag] : undefined;
+}
+
+export function parseSchema(
   schema: Record<string, PropertyType>,
 ): Record<string, Property> {
   const entries = Object.entries(schema).map(([key, type]) => {
-    const optional = key.endsWith("?");
-    const [name, alias] = key.replace("?", "").split(":");
-    const isArray = Array.isArray(type);
-    const actualType = isArray ? type[0] : type;
-    const isNestedType = isObject(actualType);
-    const propertyType = isNestedType ? parseSchema(actualType) : actualType;
-    const property: Property = {
-      key: name,
-      alias,
-      type: isArray ? [propertyType] : propertyType,
-      optional,
-    };
+    // "name:alias?=default", default can have any character
+    const [head, ...rest] = key.split("=");
+    const optional = head.endsWith("?");
+    const [name, alias] = head.replace("?", "").split(":");
+    const property = parseProperty(name, type, optional, alias);
+    if (rest.length > 0) {
+      property.default = parseDefault(property, rest.join("="));
+    }
     return [name, property] as [string, Property];
   });
-  return Object.fromEntries(entries);
+  const fields = Object.fromEntries(entries);
+  checkRuleFields(fields);
+  return fields;
+}
+
+/** fields of a rule, e.g. ["country"] for requiredIf: { country: "US" } */
+const ruleFields = ({
+  requiredIf,
+  forbiddenIf,
+  equalsField,
+  atLeastOneOf,
+}: Rules) =>
+  Object.entries({
+    requiredIf: Object.keys(requiredIf ?? {}),
+    forbiddenIf: Object.keys(forbiddenIf ?? {}),
+    equalsField: equalsField == null ? [] : [equalsField],
+    atLeastOneOf: atLeastOneOf ?? [],
+  });
+
+/** rules can only refer to other fields of the same object, conditions need one */
+function checkRuleFields(fields: Record<string, Property>) {
+  for (const property of Object.values(fields)) {
+    for (const [rule, names] of ruleFields(property)) {
+      const hasCondition = rule === "requiredIf" || rule === "forbiddenIf";
+      if (hasCondition && property[rule] != null && names.length === 0) {
+        throw new Error(`Empty condition in ${rule} of '${property.key}'`);
+      }
+      for (const name of names) {
+        if (!Object.hasOwn(fields, name) || name === property.key) {
+          throw new Error(
+            `Invalid field '${name}' in ${rule} of '${property.key}'`,
+          );
+        }
+      }
+    }
+  }
+}
+
+const lazySchemas = new WeakMap<LazyType, Record<string, Property>>();
+
+/** parsed once, on first use, so a schema can refer to itself */
+export function resolveLazy(type: LazyType) {
+  let fields = lazySchemas.get(type);
+  if (fields == null) {
+    fields = parseSchema(type.schema());
+    lazySchemas.set(type, fields);
+  }
+  return fields;
+}
+
+/** coerce "key=value" default, only primitives and enums or arrays of them */
+function parseDefault(property: Property, value: string) {
+  const { key, type } = property;
+  const itemType = isArray(type) ? type[0].type : type;
+  const isPrimitive =
+    isEnum(itemType) || (!isArray(itemType) && !isObject(itemType));
+  const result = isPrimitive ? coerce(value, itemType) : undefined;
+  if (result == null) {
+    throw new Error(`Invalid default '${value}' for '${key}'`);
+  }
+  return isArray(type) ? [result] : result;
 }
 
-function coerce(input: unknown, type: PrimitiveType | "array" | "object") {
+function coerce(
+  input: unknown,
+  type: PrimitiveType | EnumType | "array" | "object" | "record",
+) {
   if (type === "object") {
     return isObject(input) ? input : undefined;
   }
 
+  // quantities.123=4 in form data is a sparse array
+  if (type === "record") {
+    return isObject(input) || isArray(input)
+      ? Object.fromEntries(Object.entries(input))
+      : undefined;
+  }
+
   // if expecting array, coerce single value to array
   if (type === "array") {
     return Array.isArray(input) ? input : [input];
@@ -196,6 +590,15 @@ function coerce(input: unknown, type: PrimitiveType | "array" | "object") {
     input = input[0];
   }
 
+  if (isEnum(type)) {
+    // "1" from a form matches 1, "true" matches true
+    return type.values.find(
+      (value) =>
+        value === input ||
+        (typeof input !== "object" && String(value) === String(input)),
+    );
+  }
+
   if (type === "string") {
     return typeof input === "string" ? input : String(input);
   }
@@ -216,6 +619,11 @@ function coerce(input: unknown, type: PrimitiveType | "array" | "object") {
     return Number.isNaN(value) ? undefined : value;
   }
 
+  if (type === "integer") {
+    const value = typeof input === "number" ? input : Number(input);
+    return Number.isInteger(value) ? value : undefined;
+  }
+
   if (type === "bigint") {
     if (typeof input === "bigint") return input;
     try {
@@ -225,16 +633,59 @@ function coerce(input: unknown, type: PrimitiveType | "array" | "object") {
     }
   }
 
+  if (type === "date" || type === "datetime") {
+    const date =
+      input instanceof Date || typeof input === "number"
+        ? new Date(input)
+        : typeof input === "string"
+          ? parseDate(input)
+          : undefined;
+    if (date == null || Number.isNaN(date.getTime())) return undefined;
+    if (type === "datetime") return input instanceof Date ? input : date;
+    // date only, midnight UTC
+    date.setUTCHours(0, 0, 0, 0);
+    return date;
+  }
+
   return input instanceof File ? input : undefined;
 }
 
+/** strict ISO date parsing, Date.parse accepts things like "1" */
+function parseDate(input: string) {
+  const match = DATE.exec(input.trim());
+  if (match == null) return undefined;
+  const [, y, m, d, hh = "0", mm = "0", ss = "0", ms = "0", offset] = match;
+  const [year, month, day, hours, minutes, seconds] = [y, m, d, hh, mm, ss].map(
+    Number,
+  );
+  if (hours > 23 || minutes > 59 || seconds > 59) return undefined;
+  const millis = Number(ms.padEnd(3, "0"));
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds, millis);
+  const date = new Date(time);
+  // 2024-02-30 rolls over to March
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  if (offset == null || offset === "Z") return date;
+  const sign = offset.startsWith("-") ? -1 : 1;
+  const zone = Number(offset.substring(1, 3)) * 60 + Number(offset.slice(-2));
+  return new Date(time - sign * zone * 60_000);
+}
+
 function defaultValue(property: Property) {
   const { type } = property;
   if (type === "string") return "";
   if (type === "boolean") return false;
-  if (type === "number") return 0;
+  if (type === "number" || type === "integer") return 0;
   if (type === "file") return new File([], "");
   if (type === "bigint") return 0n;
+  if (type === "date" || type === "datetime") return new Date(0);
+  if (isEnum(type)) return type.values[0];
+  if (isRecord(type) || isLazy(type)) return {};
+  if (isUnion<ParsedUnion>(type)) {
+    const [branch] = Object.values(type.branches);
+    return defaultValue({ key: property.key, type: branch });
+  }
   if (isArray(type)) return [];
   return Object.fromEntries(
     Object.entries(type).map(([key, childProp]): any => {
@@ -243,66 +694,237 @@ function defaultValue(property: Property) {
   );
 }
 
-const getDisplayName = (path: string) => {
-  const arr = path.split(".");
-  const name = arr[arr.length - 1];
-  const first = name.substring(0, 1).toUpperCase();
-  const rest = name
-    .substring(1)
-    .replace(/([a-z])([A-Z])/g, ([l, u]) => `${l} ${u}`);
-  return `${first}${rest}`;
-};
+/** params as JSON for API responses, patterns, errors and bigints as text */
+function issueParams(error: BasicError): Record<string, unknown> {
+  const { code, ...params } = error;
+  switch (error.code) {
+    case "too_small":
+    case "too_big":
+      return typeof error.received === "bigint"
+        ? { ...params, received: String(error.received) }
+        : params;
+    case "pattern": {
+      const { source, flags } = error.pattern;
+      return { ...params, pattern: source, flags };
+    }
+    case "exception": {
+      const { name = "Error", message = String(error.error) } =
+        error.error ?? {};
+      return { name, message };
+    }
+    default:
+      return params;
+  }
+}
 
-const getErrorMessage = (
+const toIssue = (error: BasicError) => ({
+  code: error.code,
+  params: issueParams(error),
+});
+
+function report(
+  errors: Errors,
   path: string,
-  code: BasicError["code"],
-  inputOrException: unknown,
-  override?: ErrorMessageOverride<{}>,
-  expected?: PrimitiveType | "object" | "array" | number,
-) => {
-  const key = getKey(path) as any;
-
-  if (code === "required") {
-    const name = getDisplayName(key);
-    return (
-      override?.(key, {
-        code: "required",
-        received: typeof inputOrException,
-      }) ?? `${name} is required`
-    );
+  error: BasicError,
+  value: unknown,
+  options: ValidatorOptions<{}>,
+  label?: string,
+) {
+  const message = getErrorMessage(path, error, options, label);
+  addError(errors, path, message, value, toIssue(error));
+}
+
+/** what a file input with nothing selected submits */
+export const isEmptyFile = (value: unknown) =>
+  value instanceof File && value.size === 0 && value.name === "";
+
+/** "image/*" matches the MIME type, ".pdf" the extension, case insensitive */
+const accepts = (file: File, accept: string) => {
+  const item = accept.toLowerCase();
+  const type = file.type.toLowerCase();
+  if (item.startsWith(".")) return file.name.toLowerCase().endsWith(item);
+  if (item.endsWith("/*")) return type.startsWith(item.slice(0, -1));
+  return type === item;
+};
+
+/** checks size and type of a file, the value can be something else after a transform */
+export function fileErrors(
+  { minSize, maxSize, accept }: FileConstraints,
+  value: unknown,
+): BasicError[] {
+  if (!(value instanceof File)) return [];
+  const errors: BasicError[] = [];
+  if (minSize != null && value.size < minSize) {
+    errors.push({ code: "file_too_small", min: minSize, received: value.size });
+  } else if (maxSize != null && value.size > maxSize) {
+    errors.push({ code: "file_too_big", max: maxSize, received: value.size });
+  }
+  const list = accept == null ? [] : acceptList(accept);
+  if (list.length > 0 && !list.some((item) => accepts(value, item))) {
+    errors.push({
+      code: "file_type",
+      accept: list.join(", "),
+      received: value.type === "" ? value.name : value.type,
+    });
   }
+  return errors;
+}
 
-  if (code === "type") {
-    const received = stringify(inputOrException) || typeof inputOrException;
-    return (
-      override?.(key, {
-        code: "type",
-        expected: String(expected),
-        received,
-      }) ?? `Expected '${expected}', received '${received}'`
-    );
+/** test from the start, global and sticky patterns keep lastIndex */
+export const matches = (pattern: RegExp, value: string) => {
+  pattern.lastIndex = 0;
+  return pattern.test(value);
+};
+
+const TRANSFORMS: Record<TransformName, (value: any) => unknown> = {
+  trim: (value) => (typeof value === "string" ? value.trim() : value),
+  toLowerCase: (value) =>
+    typeof value === "string" ? value.toLowerCase() : value,
+  toUpperCase: (value) =>
+    typeof value === "string" ? value.toUpperCase() : value,
+  collapseWhitespace: (value) =>
+    typeof value === "string" ? value.replace(/\s+/g, " ") : value,
+  round: (value) => (typeof value === "number" ? Math.round(value) : value),
+};
+
+/** runs the transform pipeline of a property */
+function transform(property: Property, value: unknown) {
+  const pipeline = [property.transform ?? []].flat();
+  return pipeline.reduce(
+    (result, fn) =>
+      typeof fn === "function" ? fn(result) : TRANSFORMS[fn](result),
+    value,
+  );
+}
+
+/** checks min, max, length and pattern of a coerced value */
+function checkConstraints(
+  property: Property,
+  value: unknown,
+  fail: (error: BasicError) => void,
+) {
+  const { min, max, length, pattern } = property;
+  const type = isArray(property.type)
+    ? "array"
+    : (property.type as "string" | "number" | "integer" | "bigint");
+  const received =
+    type === "array" || type === "string"
+      ? (value as string | unknown[]).length
+      : (value as number | bigint);
+
+  const minimum = length ?? min;
+  const maximum = length ?? max;
+
+  if (minimum != null && received < minimum) {
+    fail({ code: "too_small", type, min: minimum, received });
+  } else if (maximum != null && received > maximum) {
+    fail({ code: "too_big", type, max: maximum, received });
   }
+  if (
+    pattern != null &&
+    typeof value === "string" &&
+    !matches(pattern, value)
+  ) {
+    fail({ code: "pattern", pattern, received: value });
+  }
+}
+
+// dates of the same day are equal
+const isEqual = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date
+    ? a.getTime() === b.getTime()
+    : a === b;
 
-  if (code === "array") {
-    const limit = Number(expected);
-    const length = (inputOrException as unknown[]).length;
-    return (
-      override?.(key, {
-        code: "array",
-        limit,
-        length,
-      }) ?? `Array length ${length} is greater than limit ${limit}`
+/**
+ * checks rules between fields with their coerced values, after the fields,
+ * fields with errors are left alone, partial data only has what was sent
+ */
+function checkRules(
+  path: string,
+  { fields, labels }: ObjectRules,
+  target: Record<string, unknown>,
+  options: ValidatorOptions<{}>,
+  errors: Errors,
+  partial = false,
+) {
+  // first field of the condition that holds, when all of them hold
+  const holds = (condition: Condition) => {
+    const entries = Object.entries(condition);
+    const all = entries.every(([field, values]) =>
+      [values].flat().some((value) => isEqual(target[field], value)),
     );
+    return all ? entries[0][0] : undefined;
+  };
+  for (const [key, rules] of Object.entries(fields)) {
+    const fieldPath = path === "" ? key : `${path}.${key}`;
+    if (errors[fieldPath] != null) continue;
+    const value = target[key];
+    const fail = (error: BasicError) => {
+      const message = getErrorMessage(
+        fieldPath,
+        error,
+        options,
+        labels[key],
+        labels,
+      );
+      addError(errors, fieldPath, message, value, toIssue(error));
+    };
+    const { requiredIf, forbiddenIf, equalsField, atLeastOneOf } = rules;
+
+    if (value == null && requiredIf != null && !partial) {
+      const field = holds(requiredIf);
+      if (field != null) {
+        fail({ code: "required_if", field, value: target[field] as Literal });
+      }
+    }
+    if (value != null && forbiddenIf != null) {
+      const field = holds(forbiddenIf);
+      if (field != null) {
+        fail({ code: "forbidden_if", field, value: target[field] as Literal });
+      }
+    }
+    if (
+      value != null &&
+      equalsField != null &&
+      !isEqual(value, target[equalsField])
+    ) {
+      fail({ code: "equals_field", field: equalsField });
+    }
+    if (
+      atLeastOneOf != null &&
+      !partial &&
+      [key, ...atLeastOneOf].every((field) => target[field] == null)
+    ) {
+      fail({ code: "at_least_one_of", fields: [key, ...atLeastOneOf] });
+    }
   }
+}
 
-  const error = inputOrException as Error;
-  return (
-    override?.(key, {
-      code,
-      error,
-    }) ?? `Exception: ${error.message}`
-  );
-};
+/** passes unknown keys through or reports them */
+function checkUnknownKeys(
+  path: string,
+  known: Set<string>,
+  unknownKeys: "error" | "passthrough",
+  source: Record<string, unknown>,
+  target: Record<string, unknown>,
+  options: ValidatorOptions<{}>,
+  errors: Errors,
+) {
+  for (const [childKey, childValue] of Object.entries(source)) {
+    if (known.has(childKey) || childKey === "__proto__") continue;
+    if (unknownKeys === "passthrough") {
+      target[childKey] = childValue;
+    } else {
+      const childPath = path === "" ? childKey : `${path}.${childKey}`;
+      const error = { code: "unrecognized_keys", key: childKey } as const;
+      report(errors, childPath, error, childValue, options);
+    }
+  }
+}
+
+// a file, or files from a multiple file input
+const isFileType = (type: Property["type"]) =>
+  type === "file" || (isArray(type) && type[0].type === "file");
 
 function validate(
   path: string,
@@ -312,24 +934,44 @@ function validate(
   safeTarget: any,
   options: ValidatorOptions<{}>,
   errors: Errors,
+  inputs: Record<string, unknown>,
+  depth = 0,
+  partial = false,
 ) {
   const isRoot = path === "";
 
+  if (isLazy(property.type)) {
+    property = { ...property, type: resolveLazy(property.type) };
+    depth += 1;
+  }
+
   const { key, alias, type, optional } = property;
 
-  const errorMessage = options.errorMessage;
   const arrayLimit = options.arrayLimit ?? DEFAULT_ARRAY_LIMIT;
 
-  const input = isRoot ? source : source[alias ?? key];
+  let input = isRoot ? source : source[alias ?? key];
+
+  if (
+    options.emptyFiles === "missing" &&
+    isFileType(type) &&
+    isEmptyFile(input)
+  ) {
+    input = undefined;
+  }
+
+  // only what was sent is checked, nothing is filled in
+  if (partial && input === undefined) return;
+
+  if (input == null && property.default !== undefined) {
+    input = property.default;
+  }
+
+  const fail = (error: BasicError, value?: unknown) =>
+    report(errors, path, error, value, options, property.label);
 
   if (input == null) {
     if (!optional) {
-      addError(
-        errors,
-        path,
-        getErrorMessage(path, "required", input, errorMessage),
-        input,
-      );
+      fail({ code: "required", received: typeof input }, input);
     }
     if (!isRoot) {
       // empty array for form proxy
@@ -339,17 +981,23 @@ function validate(
     return;
   }
 
-  const expected = isArray(type) ? "array" : isObject(type) ? "object" : type;
+  const expected = isArray(type)
+    ? "array"
+    : isRecord(type)
+      ? "record"
+      : isEnum(type) || !isObject(type)
+        ? type
+        : "object";
 
   const value = coerce(input, expected);
 
   if (value == null) {
-    addError(
-      errors,
-      path,
-      getErrorMessage(path, "type", input, errorMessage, expected),
-      input,
-    );
+    const received = stringify(input) || typeof input;
+    if (isEnum(expected)) {
+      fail({ code: "enum", values: expected.values, received }, input);
+    } else {
+      fail({ code: "type", expected, received }, input);
+    }
     if (!isRoot) {
       target[key] = value;
       safeTarget[key] = defaultValue(property);
@@ -357,11 +1005,20 @@ function validate(
     return;
   }
 
-  if (!isArray(type) && !isObject(type)) {
-    target[key] = safeTarget[key] = value;
+  if (!isArray(type) && (isEnum(type) || !isObject(type))) {
+    // constraints apply to the transformed value, errors keep the input
+    const result = transform(property, value);
+    target[key] = safeTarget[key] = result;
+    if (property.transform != null) inputs[path] = input;
+    checkConstraints(property, result, (error) => fail(error, input));
+    if (type === "file") {
+      for (const error of fileErrors(property, result)) fail(error, input);
+    }
     return;
   }
 
+  const errorCount = Object.keys(errors).length;
+
   if (isArray(type)) {
     const sourceArr = value as unknown[];
     // we don't support root arrays, no need to check for root
@@ -369,15 +1026,18 @@ function validate(
     const safeTargetArr = (safeTarget[key] = []);
 
     if (sourceArr.length > arrayLimit) {
-      addError(
-        errors,
-        path,
-        getErrorMessage(path, "array", sourceArr, errorMessage, arrayLimit),
-      );
+      fail({ code: "array", limit: arrayLimit, length: sourceArr.length });
       return;
     }
 
-    const itemType = { key: 0, optional: false, type: type[0] };
+    checkConstraints(property, sourceArr, fail);
+    const { maxFiles } = property;
+    if (maxFiles != null && sourceArr.length > maxFiles) {
+      const error = { max: maxFiles, received: sourceArr.length };
+      fail({ code: "too_many_files", ...error });
+    }
+
+    const itemType = { ...type[0] };
     for (let i = 0; i < sourceArr.length; ++i) {
       itemType.key = i;
       const itemPath = `${path}[${i}]`;
@@ -389,13 +1049,77 @@ function validate(
         safeTargetArr,
         options,
         errors,
+        inputs,
+        depth,
+        partial,
+      );
+    }
+  } else if (isRecord<RecordType<Property>>(type)) {
+    const sourceObj = value as Record<string, unknown>;
+    const targetObj = (target[key] = {});
+    const safeTargetObj = (safeTarget[key] = {});
+    const { values, pattern, maxKeys = DEFAULT_MAX_KEYS } = type;
+
+    const keys = Object.keys(sourceObj).filter((key) => key !== "__proto__");
+
+    if (keys.length > maxKeys) {
+      fail({ code: "record", limit: maxKeys, length: keys.length });
+      return;
+    }
+
+    const valueType = { ...values };
+    for (const entryKey of keys) {
+      const entryPath = `${path}.${entryKey}`;
+      if (pattern != null && !matches(pattern, entryKey)) {
+        const error = { code: "pattern", pattern, received: entryKey } as const;
+        report(errors, entryPath, error, sourceObj[entryKey], options);
+        continue;
+      }
+      valueType.key = entryKey;
+      validate(
+        entryPath,
+        valueType,
+        sourceObj,
+        targetObj,
+        safeTargetObj,
+        options,
+        errors,
+        inputs,
+        depth,
+        partial,
       );
     }
   } else {
     const sourceObj = value;
     const targetObj = isRoot ? target : (target[key] = {});
     const safeTargetObj = isRoot ? safeTarget : (safeTarget[key] = {});
-    for (const [childKey, childProp] of Object.entries(type)) {
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+
+    if (depth > maxDepth) {
+      fail({ code: "depth", limit: maxDepth });
+      return;
+    }
+    let fields = type as Record<string, Property>;
+    let unknownKeys = property.unknownKeys ?? options.unknownKeys ?? "strip";
+    let partialFields = partial;
+    if (isUnion<ParsedUnion>(type)) {
+      const { discriminator, branches } = type;
+      const branch = selectBranch(type, sourceObj);
+      // no match, only validate the discriminator against all tags
+      fields = branch ?? {
+        [discriminator]: parseProperty(
+          discriminator,
+          oneOf(Object.keys(branches)),
+        ),
+      };
+      if (branch == null) {
+        safeTarget[key] = defaultValue(property);
+        unknownKeys = "strip";
+        // a partial union still needs its discriminator
+        partialFields = false;
+      }
+    }
+    for (const [childKey, childProp] of Object.entries(fields)) {
       const childPath = isRoot ? childKey : `${path}.${childKey}`;
       validate(
         childPath,
@@ -405,15 +1129,46 @@ function validate(
         safeTargetObj,
         options,
         errors,
+        inputs,
+        depth,
+        partialFields,
+      );
+    }
+    const rules = objectRules(fields);
+    if (rules != null) {
+      checkRules(path, rules, targetObj, options, errors, partialFields);
+    }
+    if (unknownKeys !== "strip") {
+      const known = new Set(
+        Object.values(fields).map((field) => field.alias ?? String(field.key)),
+      );
+      checkUnknownKeys(
+        path,
+        known,
+        unknownKeys,
+        sourceObj as Record<string, unknown>,
+        targetObj,
+        options,
+        errors,
       );
     }
   }
+
+  // arrays and objects are transformed once their items are valid
+  if (property.transform != null && Object.keys(errors).length === errorCount) {
+    target[key] = safeTarget[key] = transform(property, target[key]);
+    inputs[path] = input;
+  }
 }
 
 const entries = (input: object | FormData | URLSearchParams) => {
   if (input instanceof FormData || input instanceof URLSearchParams) {
     const keys = Array.from(new Set(input.keys())); // unique keys
-    return keys.map((key) => [key, input.getAll(key)] as const); // ?hobbies=reading&hobbies=coding
+    return keys.map((key) => {
+      const values = input.getAll(key); // ?hobbies=reading&hobbies=coding
+      // single values like a plain object, unknown keys are passed through as is
+      return [key, values.length === 1 ? values[0] : values] as const;
+    });
   }
   return Object.entries(input);
 };
@@ -438,23 +1193,99 @@ function isValidInput<S extends Schema>(
   input: unknown,
   errors: Errors,
   options: ValidatorOptions<S>,
-) {
+): input is Record<string, unknown> {
   if (isObject(input)) return true;
   const type = isArray(input)
     ? "array"
     : input === null
       ? "null"
       : (input?.constructor?.name ?? typeof input);
-  const msg = getErrorMessage("", "type", type, options.errorMessage, "object");
-  addError(errors, "", msg);
+  const error = { code: "type", expected: "object", received: type } as const;
+  const msg = getErrorMessage("", error, options);
+  addError(errors, "", msg, undefined, toIssue(error));
   return false;
 }
 
+const runtime: Runtime = {
+  coerce,
+  transforms: TRANSFORMS,
+  stringify,
+  matches,
+  tag: branchTag,
+  report,
+  checkUnknownKeys,
+  checkRules,
+  isEmptyFile,
+  fileErrors,
+};
+
+/** generated code when compiled and code generation is allowed, else the interpreter */
+function createEngine(
+  type: Record<string, Property>,
+  compiled: boolean,
+  partial: boolean,
+): CompiledSchema {
+  const engine =
+    compiled && !partial
+      ? compileSchema(type, runtime, {
+          defaults: {
+            arrayLimit: DEFAULT_ARRAY_LIMIT,
+            maxKeys: DEFAULT_MAX_KEYS,
+            maxDepth: DEFAULT_MAX_DEPTH,
+          },
+          resolve: resolveLazy,
+        })
+      : undefined;
+  if (engine != null) return engine;
+  const root = { key: "", type };
+  return (input, data, safeData, options, errors, inputs) =>
+    validate(
+      "",
+      root,
+      input,
+      data,
+      safeData,
+      options,
+      errors,
+      inputs,
+      0,
+      partial,
+    );
+}
+
+/** inputs has the submitted value of transformed fields, for issues */
+function validateSchema(
+  engine: CompiledSchema,
+  input: unknown,
+  data: any,
+  safeData: any,
+  options: ValidatorOptions<{}>,
+  errors: Errors,
+  inputs: Record<string, unknown>,
+) {
+  input = normalizeInput(input);
+  if (!isValidInput(input, errors, options)) return false;
+  engine(input, data, safeData, options, errors, inputs);
+  return true;
+}
+
+function addException(
+  errors: Errors,
+  error: any,
+  options: ValidatorOptions<{}>,
+) {
+  const exception = { code: "exception", error } as const;
+  const message = getErrorMessage("", exception, options);
+  addError(errors, "", message, undefined, toIssue(exception));
+}
+
 function schemaValidator<S extends Schema, C extends Context>(
   schema: S,
   callback?: ValidatorCallback<S, C>,
+  compiled = false,
+  partial = false,
 ) {
-  const type = parseSchema(schema);
+  const engine = createEngine(parseSchema(schema), compiled, partial);
 
   return (
     input: unknown,
@@ -462,35 +1293,129 @@ function schemaValidator<S extends Schema, C extends Context>(
   ): ValidationResult<Infer<S>> => {
     ctx ??= {} as C & ValidatorOptions<S>;
 
-    input = normalizeInput(input);
-
     const data = {} as any;
     const safeData = {} as SafeData<S>;
+    const errors = {} as Errors;
+    const inputs = {};
+
+    try {
+      if (validateSchema(engine, input, data, safeData, ctx, errors, inputs)) {
+        if (callback) {
+          const issues = createIssues<S>(data, errors, inputs);
+          // fields that were not sent stay undefined in partial data
+          callback(partial ? data : safeData, issues, ctx);
+        }
+      }
+    } catch (error: any) {
+      addException(errors, error, ctx);
+    }
+
+    return {
+      success: Object.keys(errors).length === 0,
+      data,
+      errors,
+      issues: getIssues(errors),
+    };
+  };
+}
+
+const abortSignal = (options: ValidatorOptions<{}>) => {
+  const signals = [] as AbortSignal[];
+  if (options.signal) signals.push(options.signal);
+  if (options.timeout != null)
+    signals.push(AbortSignal.timeout(options.timeout));
+  return AbortSignal.any(signals);
+};
+
+const abortReason = (signal: AbortSignal) => {
+  const reason = signal.reason;
+  return reason instanceof Error ? reason : new Error(String(reason));
+};
+
+/** settle with the callback, or reject as soon as the signal aborts */
+const abortable = (pending: void | Promise<void>, signal: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(pending)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+const mergeErrors = (errors: Errors, other: Errors) => {
+  for (const [path, { value, errors: messages }] of Object.entries(other)) {
+    if (errors[path] == null) {
+      errors[path] = { value, errors: messages };
+    } else {
+      errors[path].errors.push(...messages);
+    }
+  }
+  getIssues(errors).push(...getIssues(other));
+};
+
+function asyncSchemaValidator<S extends Schema, C extends Context>(
+  schema: S,
+  callback?: AsyncValidatorCallback<S, C>,
+) {
+  const engine = createEngine(parseSchema(schema), false, false);
 
-    const root = { key: "", type };
+  return async (
+    input: unknown,
+    ctx?: C & ValidatorOptions<S>,
+  ): Promise<ValidationResult<Infer<S>>> => {
+    ctx ??= {} as C & ValidatorOptions<S>;
+
+    const data = {} as any;
+    const safeData = {} as SafeData<S>;
     const errors = {} as Errors;
+    const inputs = {};
 
     try {
-      if (isValidInput(input, errors, ctx)) {
-        validate("", root, input, data, safeData, ctx, errors);
+      if (validateSchema(engine, input, data, safeData, ctx, errors, inputs)) {
         if (callback) {
-          const issues = createIssues<S>(data, errors);
-          callback(safeData, issues, ctx);
+          // issues pushed after an abort are discarded
+          const pending = {} as Errors;
+          const issues = createIssues<S>(data, pending, inputs);
+          const signal = abortSignal(ctx);
+          await abortable(callback(safeData, issues, ctx, signal), signal);
+          mergeErrors(errors, pending);
         }
       }
     } catch (error: any) {
-      const message = getErrorMessage("", "exception", error, ctx.errorMessage);
-      addError(errors, "", message);
+      addException(errors, error, ctx);
     }
 
     return {
       success: Object.keys(errors).length === 0,
       data,
       errors,
+      issues: getIssues(errors),
     };
   };
 }
 
+// "items[0].name" => ["items", 0, "name"]
+const pathSegments = (path: string) =>
+  Array.from(path.matchAll(/\[(\d+)\]|[^.[]+/g), ([segment, index]) =>
+    index != null ? Number(index) : segment,
+  );
+
+/** issues as a Standard Schema result, root errors have no path */
+function standardResult<T>(result: ValidationResult<any>): StandardResult<T> {
+  if (result.success) return { value: result.data };
+  return {
+    issues: result.issues.map(
+      ({ path, message }): StandardIssue =>
+        path === "" ? { message } : { message, path: pathSegments(path) },
+    ),
+  };
+}
+
 function createValidator<S extends Schema>(
   schema: S,
   callback?: ValidatorCallback<S, {}>,
@@ -505,8 +1430,98 @@ function createValidator<S extends Schema, C extends Context>(
   callbackOrContext?: ContextMarker<C> | ValidatorCallback<S, C>,
   callback?: ValidatorCallback<S, C>,
 ) {
-  return schemaValidator(
+  return syncValidator(schema, callbackOrContext, callback, false);
+}
+
+function compileValidator<S extends Schema>(
+  schema: S,
+  callback?: ValidatorCallback<S, {}>,
+): Validator<S>;
+function compileValidator<S extends Schema, C extends Context>(
+  schema: S,
+  context: ContextMarker<C>,
+  callback: ValidatorCallback<S, C>,
+): ValidateWithContext<S, C>;
+function compileValidator<S extends Schema, C extends Context>(
+  schema: S,
+  callbackOrContext?: ContextMarker<C> | ValidatorCallback<S, C>,
+  callback?: ValidatorCallback<S, C>,
+) {
+  return syncValidator(schema, callbackOrContext, callback, true);
+}
+
+function createPartialValidator<S extends Schema>(
+  schema: S,
+  callback?: PartialCallback<S, {}>,
+): PartialValidator<S>;
+function createPartialValidator<S extends Schema, C extends Context>(
+  schema: S,
+  context: ContextMarker<C>,
+  callback: PartialCallback<S, C>,
+): PartialValidateWithContext<S, C>;
+function createPartialValidator<S extends Schema, C extends Context>(
+  schema: S,
+  callbackOrContext?: ContextMarker<C> | PartialCallback<S, C>,
+  callback?: PartialCallback<S, C>,
+) {
+  // the callback gets the partial data instead of the safe data
+  return syncValidator(
+    schema,
+    callbackOrContext as ContextMarker<C> | ValidatorCallback<S, C>,
+    callback as ValidatorCallback<S, C> | undefined,
+    false,
+    true,
+  );
+}
+
+function syncValidator<S extends Schema, C extends Context>(
+  schema: S,
+  callbackOrContext: ContextMarker<C> | ValidatorCallback<S, C> | undefined,
+  callback: ValidatorCallback<S, C> | undefined,
+  compiled: boolean,
+  partial = false,
+) {
+  const validate = schemaValidator(
     schema,
     typeof callbackOrContext === "function" ? callbackOrContext : callback,
+    compiled,
+    partial,
   );
+  // validators with context can't be called without it
+  if (isObject(callbackOrContext)) return validate;
+  return Object.assign(validate, {
+    "~standard": {
+      version: 1,
+      vendor: "pukka",
+      validate: (value: unknown) => standardResult(validate(value)),
+    },
+  });
+}
+
+function createAsyncValidator<S extends Schema>(
+  schema: S,
+  callback?: AsyncValidatorCallback<S, {}>,
+): AsyncValidator<S>;
+function createAsyncValidator<S extends Schema, C extends Context>(
+  schema: S,
+  context: ContextMarker<C>,
+  callback: AsyncValidatorCallback<S, C>,
+): AsyncValidateWithContext<S, C>;
+function createAsyncValidator<S extends Schema, C extends Context>(
+  schema: S,
+  callbackOrContext?: ContextMarker<C> | AsyncValidatorCallback<S, C>,
+  callback?: AsyncValidatorCallback<S, C>,
+) {
+  const validate = asyncSchemaValidator(
+    schema,
+    typeof callbackOrContext === "function" ? callbackOrContext : callback,
+  );
+  if (isObject(callbackOrContext)) return validate;
+  return Object.assign(validate, {
+    "~standard": {
+      version: 1,
+      vendor: "pukka",
+      validate: async (value: unknown) => standardResult(await validate(value)),
+    },
+  });
 }